@@ -0,0 +1,24 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { analysisJobs } from "@/lib/analysis-jobs"
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const job = analysisJobs.get(id)
+
+  if (!job) {
+    return NextResponse.json({ error: "Analysis job not found" }, { status: 404 })
+  }
+
+  return NextResponse.json(job)
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const job = analysisJobs.cancel(id)
+
+  if (!job) {
+    return NextResponse.json({ error: "Analysis job not found" }, { status: 404 })
+  }
+
+  return NextResponse.json(job)
+}
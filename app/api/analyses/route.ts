@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { analysisJobs } from "@/lib/analysis-jobs"
+import { parseAnalysisParameters } from "@/lib/analysis-parameters"
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const company = typeof body?.company === "string" ? body.company.trim() : ""
+
+    if (!company) {
+      return NextResponse.json({ error: "Missing required field: company" }, { status: 400 })
+    }
+
+    const parsed = parseAnalysisParameters(body?.parameters ?? {})
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error, details: parsed.details }, { status: 400 })
+    }
+
+    const job = analysisJobs.create(company, parsed.parameters, { force: body?.refresh === true })
+    console.log(`[v0] Created analysis job ${job.id} for: ${company}`)
+
+    return NextResponse.json(job, { status: 202 })
+  } catch (error) {
+    console.error("[v0] Create analysis job error:", error)
+    return NextResponse.json({ error: "Failed to create analysis job" }, { status: 500 })
+  }
+}
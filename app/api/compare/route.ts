@@ -0,0 +1,78 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { analysisJobs, type AnalysisJob } from "@/lib/analysis-jobs"
+import { parseAnalysisParameters } from "@/lib/analysis-parameters"
+import { ComparisonAnalyzer, type ComparisonStatus } from "@/lib/comparison-analyzer"
+
+const MAX_COMPANIES = 4
+
+/**
+ * Starts one analysis job per company; poll GET with the returned job ids for the comparison
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const names: unknown[] = Array.isArray(body?.companies) ? body.companies : []
+    const companies = Array.from(
+      new Map(
+        names
+          .filter((c): c is string => typeof c === "string")
+          .map((c) => c.trim())
+          .filter(Boolean)
+          .map((c) => [c.toLowerCase(), c] as const),
+      ).values(),
+    )
+
+    if (companies.length < 2 || companies.length > MAX_COMPANIES) {
+      return NextResponse.json(
+        { error: `Provide between 2 and ${MAX_COMPANIES} distinct companies` },
+        { status: 400 },
+      )
+    }
+
+    const parsed = parseAnalysisParameters(body?.parameters ?? {})
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error, details: parsed.details }, { status: 400 })
+    }
+
+    console.log(`[v0] ========== Comparing: ${companies.join(" vs ")} ==========`)
+    const jobs = companies.map((company) =>
+      analysisJobs.create(company, parsed.parameters, { force: body?.refresh === true }),
+    )
+
+    const status: ComparisonStatus = { jobs, comparison: null }
+    return NextResponse.json(status, { status: 202 })
+  } catch (error) {
+    console.error("[v0] Compare error:", error)
+    return NextResponse.json({ error: "Failed to start comparison" }, { status: 500 })
+  }
+}
+
+/**
+ * Reports each company's job; the comparison is included once all of them have completed
+ */
+export async function GET(request: NextRequest) {
+  const ids = (request.nextUrl.searchParams.get("jobs") || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean)
+
+  if (ids.length < 2 || ids.length > MAX_COMPANIES) {
+    return NextResponse.json({ error: `Provide between 2 and ${MAX_COMPANIES} job ids` }, { status: 400 })
+  }
+
+  const jobs: AnalysisJob[] = []
+  for (const id of ids) {
+    const job = analysisJobs.get(id)
+    if (!job) {
+      return NextResponse.json({ error: "Analysis job not found" }, { status: 404 })
+    }
+    jobs.push(job)
+  }
+
+  const comparison = jobs.every((job) => job.status === "completed" && job.result)
+    ? ComparisonAnalyzer.compare(jobs.map((job) => ({ company: job.company, data: job.result! })))
+    : null
+
+  const status: ComparisonStatus = { jobs: jobs.map(({ result: _result, ...job }) => job), comparison }
+  return NextResponse.json(status)
+}
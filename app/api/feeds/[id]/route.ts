@@ -0,0 +1,22 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { feedRepository } from "@/lib/feed-repository"
+import { resultCache } from "@/lib/result-cache"
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const existing = await feedRepository.get(id)
+
+    if (!existing || !(await feedRepository.remove(id))) {
+      return NextResponse.json({ error: "Feed not found" }, { status: 404 })
+    }
+
+    // Cached results still include the removed feed's entries
+    resultCache.invalidate(existing.company)
+
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    console.error("[v0] Delete feed error:", error)
+    return NextResponse.json({ error: "Failed to delete feed" }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { FeedClient } from "@/lib/feed-client"
+import { feedRepository } from "@/lib/feed-repository"
+import { resultCache } from "@/lib/result-cache"
+
+export async function GET(request: NextRequest) {
+  try {
+    const company = request.nextUrl.searchParams.get("company") || undefined
+    const feeds = await feedRepository.list(company)
+
+    return NextResponse.json({ feeds })
+  } catch (error) {
+    console.error("[v0] List feeds error:", error)
+    return NextResponse.json({ error: "Failed to load feeds" }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const company = typeof body?.company === "string" ? body.company.trim() : ""
+    const url = typeof body?.url === "string" ? body.url.trim() : ""
+
+    if (!company || !url) {
+      return NextResponse.json({ error: "Missing required fields: company, url" }, { status: 400 })
+    }
+    if (!/^https?:\/\//i.test(url)) {
+      return NextResponse.json({ error: "Feed URL must start with http:// or https://" }, { status: 400 })
+    }
+
+    // Read the feed once up front so a typo is reported now rather than silently during analyses
+    let title: string | undefined
+    try {
+      const parsed = await new FeedClient().fetchFeed(url, AbortSignal.timeout(FeedClient.TIMEOUT_MS))
+      title = parsed.title
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "unknown error"
+      return NextResponse.json({ error: `Could not read the feed: ${reason}` }, { status: 400 })
+    }
+
+    const feed = await feedRepository.add(company, url, title)
+    if (!feed) {
+      return NextResponse.json({ error: "This feed is already registered for the company" }, { status: 409 })
+    }
+
+    // Cached results were computed without the new feed
+    resultCache.invalidate(feed.company)
+
+    return NextResponse.json(feed, { status: 201 })
+  } catch (error) {
+    console.error("[v0] Add feed error:", error)
+    return NextResponse.json({ error: "Failed to add feed" }, { status: 500 })
+  }
+}
@@ -1,5 +1,6 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { SocialMediaGenerator } from "@/lib/social-media-generator"
+import { StructuredOutputError } from "@/lib/structured-output"
 
 export async function POST(request: NextRequest) {
   try {
@@ -41,6 +42,12 @@ export async function POST(request: NextRequest) {
     }
   } catch (error) {
     console.error("[v0] Generate post error:", error)
+    if (error instanceof StructuredOutputError) {
+      return NextResponse.json(
+        { error: `The AI model returned an invalid ${error.task}. Please try again.`, details: error.issues },
+        { status: 502 },
+      )
+    }
     return NextResponse.json(
       { error: "Failed to generate post content" },
       { status: 500 },
@@ -0,0 +1,53 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { parseCompanyProfile } from "@/lib/company-profile-schema"
+import { DuplicateProfileError, companyProfileRepository } from "@/lib/company-profile-repository"
+import { resultCache } from "@/lib/result-cache"
+
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const parsed = parseCompanyProfile(body ?? {})
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error, details: parsed.details }, { status: 400 })
+    }
+
+    const existing = await companyProfileRepository.get(id)
+    if (!existing) {
+      return NextResponse.json({ error: "Company profile not found" }, { status: 404 })
+    }
+
+    const profile = await companyProfileRepository.update(id, parsed.profile)
+
+    // Cached results were matched with the old profile, possibly under the old company name
+    resultCache.invalidate(existing.company)
+    resultCache.invalidate(parsed.profile.company)
+
+    return NextResponse.json(profile)
+  } catch (error) {
+    if (error instanceof DuplicateProfileError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    console.error("[v0] Update company profile error:", error)
+    return NextResponse.json({ error: "Failed to update company profile" }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const existing = await companyProfileRepository.get(id)
+
+    if (!existing || !(await companyProfileRepository.remove(id))) {
+      return NextResponse.json({ error: "Company profile not found" }, { status: 404 })
+    }
+
+    resultCache.invalidate(existing.company)
+
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    console.error("[v0] Delete company profile error:", error)
+    return NextResponse.json({ error: "Failed to delete company profile" }, { status: 500 })
+  }
+}
@@ -0,0 +1,39 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { parseCompanyProfile } from "@/lib/company-profile-schema"
+import { companyProfileRepository } from "@/lib/company-profile-repository"
+import { resultCache } from "@/lib/result-cache"
+
+export async function GET() {
+  try {
+    const profiles = await companyProfileRepository.list()
+
+    return NextResponse.json({ profiles })
+  } catch (error) {
+    console.error("[v0] List company profiles error:", error)
+    return NextResponse.json({ error: "Failed to load company profiles" }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const parsed = parseCompanyProfile(body ?? {})
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error, details: parsed.details }, { status: 400 })
+    }
+
+    const profile = await companyProfileRepository.add(parsed.profile)
+    if (!profile) {
+      return NextResponse.json({ error: `${parsed.profile.company} already has a profile` }, { status: 409 })
+    }
+
+    // Cached results were matched without the profile
+    resultCache.invalidate(profile.company)
+
+    return NextResponse.json(profile, { status: 201 })
+  } catch (error) {
+    console.error("[v0] Add company profile error:", error)
+    return NextResponse.json({ error: "Failed to add company profile" }, { status: 500 })
+  }
+}
@@ -0,0 +1,34 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { snapshotRepository } from "@/lib/snapshot-repository"
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const snapshot = await snapshotRepository.get(id)
+
+    if (!snapshot) {
+      return NextResponse.json({ error: "Snapshot not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(snapshot)
+  } catch (error) {
+    console.error("[v0] Load snapshot error:", error)
+    return NextResponse.json({ error: "Failed to load snapshot" }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const deleted = await snapshotRepository.delete(id)
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Snapshot not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    console.error("[v0] Delete snapshot error:", error)
+    return NextResponse.json({ error: "Failed to delete snapshot" }, { status: 500 })
+  }
+}
@@ -0,0 +1,14 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { snapshotRepository } from "@/lib/snapshot-repository"
+
+export async function GET(request: NextRequest) {
+  try {
+    const company = request.nextUrl.searchParams.get("company") || undefined
+    const snapshots = await snapshotRepository.list(company)
+
+    return NextResponse.json({ snapshots })
+  } catch (error) {
+    console.error("[v0] List snapshots error:", error)
+    return NextResponse.json({ error: "Failed to list snapshots" }, { status: 500 })
+  }
+}
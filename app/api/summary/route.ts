@@ -1,6 +1,7 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { generateText } from "ai"
-import { openai } from "@ai-sdk/openai"
+import { summaryResponseSchema } from "@/lib/llm-response-schemas"
+import { modelRegistry } from "@/lib/model-registry"
+import { generateStructured, StructuredOutputError } from "@/lib/structured-output"
 import type { SentimentData } from "@/lib/types"
 
 export interface ThemeData {
@@ -18,25 +19,26 @@ export async function POST(request: NextRequest) {
   try {
     const sentimentData: SentimentData = await request.json()
 
-    // Build prompt for GPT-5
     const prompt = buildAnalysisPrompt(sentimentData)
 
-    const model = openai("gpt-5")
-
-    const { text: result } = await generateText({
-      model,
+    const summary: SummaryResponse = await generateStructured({
+      task: "summary",
+      llm: modelRegistry.get("summarize"),
       prompt,
-      temperature: 0.5,
+      schema: summaryResponseSchema,
     })
 
-    console.log("[summary] GPT-5 response:", result)
-
-    // Parse the response
-    const parsed = parseAIResponse(result)
+    console.log("[summary] AI response:", summary)
 
-    return NextResponse.json(parsed)
+    return NextResponse.json(summary)
   } catch (error) {
     console.error("[summary] Error:", error)
+    if (error instanceof StructuredOutputError) {
+      return NextResponse.json(
+        { error: "The AI model returned an invalid summary. Please try again.", details: error.issues },
+        { status: 502 },
+      )
+    }
     return NextResponse.json(
       {
         error: "Failed to generate summary",
@@ -47,8 +49,12 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// Uploads can hold thousands of rows; the summary reads a sample so the prompt stays within the model's context
+const MAX_SUMMARY_MENTIONS = 100
+
 function buildAnalysisPrompt(data: SentimentData): string {
   const mentionsText = data.mentions
+    .slice(0, MAX_SUMMARY_MENTIONS)
     .map((m) => {
       const title = m.text
       const body = m.body ? `\n${m.body}` : ""
@@ -79,37 +85,3 @@ Respond with ONLY valid JSON:
 
 Identify exactly 3-4 key themes. Keep descriptions under 15 words each.`
 }
-
-function parseAIResponse(text: string): SummaryResponse {
-  try {
-    // Try to extract JSON from the response
-    const jsonMatch = text.match(/\{[\s\S]*\}/)
-    if (!jsonMatch) {
-      throw new Error("No JSON found in response")
-    }
-
-    const parsed = JSON.parse(jsonMatch[0])
-
-    // Validate structure
-    if (!parsed.executive_summary || !Array.isArray(parsed.key_themes)) {
-      throw new Error("Invalid response structure")
-    }
-
-    return parsed as SummaryResponse
-  } catch (error) {
-    console.error("[summary] Parse error:", error)
-    // Return fallback
-    return {
-      executive_summary:
-        "Unable to generate summary. Please check the sentiment data and try again.",
-      key_themes: [
-        {
-          theme: "Analysis Error",
-          sentiment: "neutral",
-          description: "Could not parse AI response",
-        },
-      ],
-    }
-  }
-}
-
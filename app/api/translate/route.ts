@@ -0,0 +1,38 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { generateText } from "ai"
+import { modelRegistry } from "@/lib/model-registry"
+
+// Mentions are shown truncated, so there is no need to translate more than a few paragraphs
+const MAX_TEXT_LENGTH = 2000
+
+/**
+ * Translates a mention into English for display; the analysis itself always uses the original text
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const text = typeof body?.text === "string" ? body.text.trim() : ""
+
+    if (!text) {
+      return NextResponse.json({ error: "Missing required field: text" }, { status: 400 })
+    }
+    if (text.length > MAX_TEXT_LENGTH) {
+      return NextResponse.json({ error: `Text is limited to ${MAX_TEXT_LENGTH} characters` }, { status: 400 })
+    }
+
+    const { model, temperature } = modelRegistry.get("translate")
+
+    const { text: translation } = await generateText({
+      model,
+      prompt: `Translate this social media comment into English. Keep its tone, and respond with ONLY the translation.
+
+${text}`,
+      temperature,
+    })
+
+    return NextResponse.json({ translation: translation.trim() })
+  } catch (error) {
+    console.error("[translate] Error:", error)
+    return NextResponse.json({ error: "Failed to translate text" }, { status: 500 })
+  }
+}
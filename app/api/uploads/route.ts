@@ -0,0 +1,71 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { analysisJobs } from "@/lib/analysis-jobs"
+import { parseAnalysisParameters } from "@/lib/analysis-parameters"
+import { FeedbackImporter, columnMappingSchema } from "@/lib/feedback-import"
+
+// Only the first row errors are returned so a badly mapped file doesn't produce a huge response
+const MAX_REPORTED_ERRORS = 20
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const company = typeof body?.company === "string" ? body.company.trim() : ""
+    const content = typeof body?.content === "string" ? body.content : ""
+    const format = body?.format === "jsonl" ? "jsonl" : "csv"
+
+    if (!company) {
+      return NextResponse.json({ error: "Missing required field: company" }, { status: 400 })
+    }
+    if (!content.trim()) {
+      return NextResponse.json({ error: "The uploaded file is empty" }, { status: 400 })
+    }
+    if (content.length > FeedbackImporter.MAX_BYTES) {
+      return NextResponse.json({ error: "The uploaded file is larger than 5 MB" }, { status: 400 })
+    }
+
+    const mapping = columnMappingSchema.safeParse(body?.mapping ?? {})
+    if (!mapping.success) {
+      return NextResponse.json(
+        { error: "Invalid column mapping", details: mapping.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const parsedParameters = parseAnalysisParameters(body?.parameters ?? {})
+    if (!parsedParameters.success) {
+      return NextResponse.json(
+        { error: parsedParameters.error, details: parsedParameters.details },
+        { status: 400 },
+      )
+    }
+
+    let parsed
+    try {
+      parsed = FeedbackImporter.parse(content, format)
+    } catch (error) {
+      return NextResponse.json(
+        { error: `Could not read the file: ${error instanceof Error ? error.message : "unknown error"}` },
+        { status: 400 },
+      )
+    }
+
+    const { mentions, errors } = FeedbackImporter.toMentions(parsed, mapping.data)
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: `${errors.length} invalid rows`, rowErrors: errors.slice(0, MAX_REPORTED_ERRORS) },
+        { status: 400 },
+      )
+    }
+    if (mentions.length === 0) {
+      return NextResponse.json({ error: "No rows with feedback text found" }, { status: 400 })
+    }
+
+    const job = analysisJobs.create(company, parsedParameters.parameters, { mentions })
+    console.log(`[v0] Created upload analysis job ${job.id} for ${company} with ${mentions.length} rows`)
+
+    return NextResponse.json({ ...job, rows: mentions.length }, { status: 202 })
+  } catch (error) {
+    console.error("[v0] Upload analysis error:", error)
+    return NextResponse.json({ error: "Failed to start the upload analysis" }, { status: 500 })
+  }
+}
@@ -0,0 +1,57 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { WatchlistRepository, watchlistRepository } from "@/lib/watchlist-repository"
+import type { WatchlistEntry } from "@/lib/types"
+
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const changes: Partial<WatchlistEntry> = {}
+
+    if (body?.schedule !== undefined) {
+      if (!WatchlistRepository.isSchedule(body.schedule)) {
+        return NextResponse.json({ error: "Schedule must be one of: hourly, daily, weekly" }, { status: 400 })
+      }
+      changes.schedule = body.schedule
+    }
+    if (body?.enabled !== undefined) {
+      if (typeof body.enabled !== "boolean") {
+        return NextResponse.json({ error: "enabled must be a boolean" }, { status: 400 })
+      }
+      changes.enabled = body.enabled
+    }
+
+    const existing = await watchlistRepository.get(id)
+    if (!existing) {
+      return NextResponse.json({ error: "Watchlist entry not found" }, { status: 404 })
+    }
+
+    // A new schedule takes effect from the last run rather than waiting out the old interval
+    if (changes.schedule && changes.schedule !== existing.schedule) {
+      const from = existing.lastRunAt ? new Date(existing.lastRunAt) : new Date()
+      changes.nextRunAt = WatchlistRepository.nextRunAfter(changes.schedule, from)
+    }
+
+    const entry = await watchlistRepository.update(id, changes)
+    return NextResponse.json(entry)
+  } catch (error) {
+    console.error("[v0] Update watchlist entry error:", error)
+    return NextResponse.json({ error: "Failed to update watchlist entry" }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const removed = await watchlistRepository.remove(id)
+
+    if (!removed) {
+      return NextResponse.json({ error: "Watchlist entry not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    console.error("[v0] Delete watchlist entry error:", error)
+    return NextResponse.json({ error: "Failed to delete watchlist entry" }, { status: 500 })
+  }
+}
@@ -0,0 +1,15 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { watchlistRepository } from "@/lib/watchlist-repository"
+import { watchlistScheduler } from "@/lib/watchlist-scheduler"
+
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const entry = await watchlistRepository.get(id)
+
+  if (!entry) {
+    return NextResponse.json({ error: "Watchlist entry not found" }, { status: 404 })
+  }
+
+  const queued = watchlistScheduler.enqueue(id)
+  return NextResponse.json({ queued }, { status: 202 })
+}
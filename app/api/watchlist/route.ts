@@ -0,0 +1,43 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { WatchlistRepository, watchlistRepository } from "@/lib/watchlist-repository"
+import { watchlistScheduler } from "@/lib/watchlist-scheduler"
+
+export async function GET() {
+  try {
+    const entries = await watchlistRepository.list()
+
+    return NextResponse.json({
+      entries: entries.map((entry) => ({ ...entry, queued: watchlistScheduler.isPending(entry.id) })),
+    })
+  } catch (error) {
+    console.error("[v0] List watchlist error:", error)
+    return NextResponse.json({ error: "Failed to load watchlist" }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const company = typeof body?.company === "string" ? body.company.trim() : ""
+    const schedule = body?.schedule ?? "daily"
+
+    if (!company) {
+      return NextResponse.json({ error: "Missing required field: company" }, { status: 400 })
+    }
+    if (!WatchlistRepository.isSchedule(schedule)) {
+      return NextResponse.json({ error: "Schedule must be one of: hourly, daily, weekly" }, { status: 400 })
+    }
+
+    const entry = await watchlistRepository.add(company, schedule)
+    if (!entry) {
+      return NextResponse.json({ error: `${company} is already on the watchlist` }, { status: 409 })
+    }
+
+    watchlistScheduler.enqueue(entry.id)
+
+    return NextResponse.json(entry, { status: 201 })
+  } catch (error) {
+    console.error("[v0] Add watchlist entry error:", error)
+    return NextResponse.json({ error: "Failed to add watchlist entry" }, { status: 500 })
+  }
+}
@@ -0,0 +1,9 @@
+import { CompanyComparison } from "@/components/company-comparison"
+
+export default function ComparePage() {
+  return (
+    <main className="min-h-screen bg-background">
+      <CompanyComparison />
+    </main>
+  )
+}
@@ -0,0 +1,9 @@
+import { FeedManager } from "@/components/feed-manager"
+
+export default function FeedsPage() {
+  return (
+    <main className="min-h-screen bg-background">
+      <FeedManager />
+    </main>
+  )
+}
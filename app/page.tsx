@@ -1,9 +1,11 @@
 import { SentimentDashboard } from "@/components/sentiment-dashboard"
 
-export default function Home() {
+export default async function Home({ searchParams }: { searchParams: Promise<{ snapshot?: string }> }) {
+  const { snapshot } = await searchParams
+
   return (
     <main className="min-h-screen bg-background">
-      <SentimentDashboard />
+      <SentimentDashboard snapshotId={snapshot} />
     </main>
   )
 }
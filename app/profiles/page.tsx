@@ -0,0 +1,9 @@
+import { ProfileManager } from "@/components/profile-manager"
+
+export default function ProfilesPage() {
+  return (
+    <main className="min-h-screen bg-background">
+      <ProfileManager />
+    </main>
+  )
+}
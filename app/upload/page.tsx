@@ -0,0 +1,9 @@
+import { FeedbackUpload } from "@/components/feedback-upload"
+
+export default function UploadPage() {
+  return (
+    <main className="min-h-screen bg-background">
+      <FeedbackUpload />
+    </main>
+  )
+}
@@ -0,0 +1,9 @@
+import { WatchlistManager } from "@/components/watchlist-manager"
+
+export default function WatchlistPage() {
+  return (
+    <main className="min-h-screen bg-background">
+      <WatchlistManager />
+    </main>
+  )
+}
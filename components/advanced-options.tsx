@@ -0,0 +1,214 @@
+"use client"
+
+import { useState } from "react"
+import { Input } from "@/components/ui/input"
+import {
+  DEFAULT_ANALYSIS_PARAMETERS,
+  MENTION_SOURCES,
+  PARAMETER_LIMITS,
+  SENTIMENT_METHODS,
+  SENTIMENT_WEIGHTINGS,
+  TIMEFRAMES,
+} from "@/lib/analysis-parameters"
+import type {
+  AnalysisParameters,
+  SearchSourceId,
+  RedditTimeframe,
+  SentimentMethod,
+  SentimentWeighting,
+} from "@/lib/types"
+
+interface AdvancedOptionsProps {
+  value: AnalysisParameters
+  onChange: (value: AnalysisParameters) => void
+}
+
+type NumericField = "topicCount" | "postBudget" | "commentPostBudget" | "commentBudget" | "maxMentions" | "minScore"
+
+const NUMERIC_FIELDS: Array<{ field: NumericField; label: string; limits: { min: number; max: number } }> = [
+  { field: "topicCount", label: "Search topics", limits: PARAMETER_LIMITS.topicCount },
+  { field: "postBudget", label: "Total posts", limits: PARAMETER_LIMITS.postBudget },
+  { field: "commentPostBudget", label: "Posts to read comments from", limits: PARAMETER_LIMITS.commentPostBudget },
+  { field: "commentBudget", label: "Total comments", limits: PARAMETER_LIMITS.commentBudget },
+  { field: "maxMentions", label: "Max mentions analyzed", limits: PARAMETER_LIMITS.maxMentions },
+  { field: "minScore", label: "Min upvotes/points", limits: PARAMETER_LIMITS.minScore },
+]
+
+const SOURCE_LABELS: Record<SearchSourceId, string> = {
+  reddit: "Reddit",
+  hackernews: "Hacker News",
+  feeds: "RSS feeds",
+}
+
+const WEIGHTING_LABELS: Record<SentimentWeighting, string> = {
+  upvotes: "Upvotes/points",
+  replies: "Reply count",
+  recency: "Recency",
+}
+
+const METHOD_LABELS: Record<SentimentMethod, string> = {
+  llm: "AI model",
+  lexicon: "Offline lexicon (English)",
+}
+
+const fieldClassName =
+  "h-10 rounded-xl border-white/30 bg-white/50 backdrop-blur-sm dark:bg-white/5 dark:border-white/10"
+
+const parseList = (text: string) =>
+  text
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean)
+
+export function AdvancedOptions({ value, onChange }: AdvancedOptionsProps) {
+  // Keep the raw text so commas and spaces can be typed freely
+  const [includeText, setIncludeText] = useState(value.includeSubreddits.join(", "))
+  const [excludeText, setExcludeText] = useState(value.excludeSubreddits.join(", "))
+  const [authorText, setAuthorText] = useState(value.excludeAuthors.join(", "))
+
+  const handleNumberChange = (field: NumericField, raw: string) => {
+    onChange({ ...value, [field]: raw === "" ? DEFAULT_ANALYSIS_PARAMETERS[field] : Number(raw) })
+  }
+
+  const handleSourceToggle = (source: SearchSourceId, checked: boolean) => {
+    const sources = checked ? [...value.sources, source] : value.sources.filter((s) => s !== source)
+    // At least one source has to stay selected
+    if (sources.length > 0) {
+      onChange({ ...value, sources })
+    }
+  }
+
+  const handleReset = () => {
+    setIncludeText("")
+    setExcludeText("")
+    setAuthorText("")
+    onChange(DEFAULT_ANALYSIS_PARAMETERS)
+  }
+
+  return (
+    <div className="mt-5 rounded-2xl border border-white/20 dark:border-white/10 bg-white/30 dark:bg-white/5 p-5">
+      <div className="mb-4 flex flex-wrap items-center gap-4 text-xs font-medium text-muted-foreground">
+        <span>Sources</span>
+        {MENTION_SOURCES.map((source) => (
+          <label key={source} className="flex items-center gap-2 text-sm text-foreground">
+            <input
+              type="checkbox"
+              checked={value.sources.includes(source)}
+              onChange={(e) => handleSourceToggle(source, e.target.checked)}
+              className="h-4 w-4 accent-primary"
+            />
+            {SOURCE_LABELS[source]}
+          </label>
+        ))}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <label className="space-y-1.5 text-xs font-medium text-muted-foreground">
+          <span>Timeframe</span>
+          <select
+            value={value.timeframe}
+            onChange={(e) => onChange({ ...value, timeframe: e.target.value as RedditTimeframe })}
+            className={`w-full border px-3 text-sm text-foreground ${fieldClassName}`}
+          >
+            {TIMEFRAMES.map((timeframe) => (
+              <option key={timeframe} value={timeframe}>
+                {timeframe === "all" ? "all time" : `past ${timeframe}`}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="space-y-1.5 text-xs font-medium text-muted-foreground">
+          <span>Weight mentions by</span>
+          <select
+            value={value.weighting}
+            onChange={(e) => onChange({ ...value, weighting: e.target.value as SentimentWeighting })}
+            className={`w-full border px-3 text-sm text-foreground ${fieldClassName}`}
+          >
+            {SENTIMENT_WEIGHTINGS.map((weighting) => (
+              <option key={weighting} value={weighting}>
+                {WEIGHTING_LABELS[weighting]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="space-y-1.5 text-xs font-medium text-muted-foreground">
+          <span>Score sentiment with</span>
+          <select
+            value={value.sentimentMethod}
+            onChange={(e) => onChange({ ...value, sentimentMethod: e.target.value as SentimentMethod })}
+            className={`w-full border px-3 text-sm text-foreground ${fieldClassName}`}
+          >
+            {SENTIMENT_METHODS.map((method) => (
+              <option key={method} value={method}>
+                {METHOD_LABELS[method]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {NUMERIC_FIELDS.map(({ field, label, limits }) => (
+          <label key={field} className="space-y-1.5 text-xs font-medium text-muted-foreground">
+            <span>
+              {label} ({limits.min}–{limits.max})
+            </span>
+            <Input
+              type="number"
+              min={limits.min}
+              max={limits.max}
+              value={value[field]}
+              onChange={(e) => handleNumberChange(field, e.target.value)}
+              className={fieldClassName}
+            />
+          </label>
+        ))}
+
+        <label className="space-y-1.5 text-xs font-medium text-muted-foreground md:col-span-3 lg:col-span-1">
+          <span>Only these subreddits</span>
+          <Input
+            placeholder="e.g. teslamotors, electricvehicles"
+            value={includeText}
+            onChange={(e) => {
+              setIncludeText(e.target.value)
+              onChange({ ...value, includeSubreddits: parseList(e.target.value) })
+            }}
+            className={fieldClassName}
+          />
+        </label>
+
+        <label className="space-y-1.5 text-xs font-medium text-muted-foreground md:col-span-3 lg:col-span-2">
+          <span>Exclude subreddits</span>
+          <Input
+            placeholder="e.g. wallstreetbets"
+            value={excludeText}
+            onChange={(e) => {
+              setExcludeText(e.target.value)
+              onChange({ ...value, excludeSubreddits: parseList(e.target.value) })
+            }}
+            className={fieldClassName}
+          />
+        </label>
+
+        <label className="space-y-1.5 text-xs font-medium text-muted-foreground md:col-span-3 lg:col-span-1">
+          <span>Ignore authors (bots and AutoModerator are always ignored)</span>
+          <Input
+            placeholder="e.g. acme_support"
+            value={authorText}
+            onChange={(e) => {
+              setAuthorText(e.target.value)
+              onChange({ ...value, excludeAuthors: parseList(e.target.value) })
+            }}
+            className={fieldClassName}
+          />
+        </label>
+      </div>
+
+      <div className="mt-4 flex justify-end">
+        <button onClick={handleReset} className="text-xs font-medium text-primary hover:text-primary/80 transition-smooth">
+          Reset to defaults
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -41,7 +41,8 @@ export function AiInsights({ sentimentData }: AiInsightsProps) {
       })
 
       if (!response.ok) {
-        throw new Error("Failed to generate summary")
+        const body = await response.json().catch(() => null)
+        throw new Error(body?.error ?? "Failed to generate summary")
       }
 
       const data: SummaryResponse = await response.json()
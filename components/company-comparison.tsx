@@ -0,0 +1,302 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import Link from "next/link"
+import useSWR from "swr"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { PipelineProgress } from "@/components/pipeline-progress"
+import { SentimentGauge } from "@/components/sentiment-gauge"
+import { Activity, ArrowLeft, Search } from "lucide-react"
+import type { AnalysisJob } from "@/lib/analysis-jobs"
+import type { ComparisonStatus } from "@/lib/comparison-analyzer"
+
+const fetcher = (url: string) =>
+  fetch(url).then(async (res) => {
+    const body = await res.json()
+    if (!res.ok) throw new Error(body?.error ?? "Failed to compare companies")
+    return body
+  })
+
+const formatDifference = (value: number) => `${value > 0 ? "+" : ""}${value.toFixed(1)}`
+
+const isJobActive = (job: AnalysisJob) => job.status === "queued" || job.status === "running"
+
+// A company whose job ended without a result means the comparison can't finish
+const describeJobFailure = (job: AnalysisJob) => {
+  if (job.status === "cancelled") return `${job.company}: analysis was cancelled`
+  if (job.status === "failed" || job.status === "rate_limited") {
+    return `${job.company}: ${job.error ?? "analysis failed"}`
+  }
+  return null
+}
+
+export function CompanyComparison() {
+  const [input, setInput] = useState("")
+  const [jobIds, setJobIds] = useState<string[] | null>(null)
+  const [isStarting, setIsStarting] = useState(false)
+  const [startError, setStartError] = useState<string | null>(null)
+
+  const { data: status, error: statusError } = useSWR<ComparisonStatus>(
+    jobIds ? `/api/compare?jobs=${jobIds.map(encodeURIComponent).join(",")}` : null,
+    fetcher,
+    {
+      revalidateOnFocus: false,
+      refreshInterval: (latest) => (latest && !latest.comparison && latest.jobs.some(isJobActive) ? 1500 : 0),
+    },
+  )
+
+  const data = status?.comparison ?? undefined
+  const jobFailure = status?.jobs.map(describeJobFailure).find(Boolean)
+  const isLoading = isStarting || (jobIds !== null && !statusError && !data && !jobFailure)
+  const error = startError ?? statusError?.message ?? jobFailure
+
+  const handleCompare = async () => {
+    const companies = input
+      .split(",")
+      .map((c) => c.trim())
+      .filter(Boolean)
+    if (companies.length === 0) return
+
+    setStartError(null)
+    setIsStarting(true)
+    try {
+      const response = await fetch("/api/compare", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ companies }),
+      })
+
+      const body = await response.json().catch(() => null)
+      if (!response.ok) {
+        throw new Error(body?.error ?? "Failed to start comparison")
+      }
+
+      setJobIds((body as ComparisonStatus).jobs.map((job) => job.id))
+    } catch (err) {
+      console.error("Failed to start comparison:", err)
+      setJobIds(null)
+      setStartError(err instanceof Error ? err.message : "Failed to start comparison")
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  const handleCancel = async () => {
+    if (!status) return
+    try {
+      await Promise.all(
+        status.jobs.filter(isJobActive).map((job) => fetch(`/api/analyses/${job.id}`, { method: "DELETE" })),
+      )
+    } catch (err) {
+      console.error("Failed to cancel comparison:", err)
+    }
+    setJobIds(null)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      handleCompare()
+    }
+  }
+
+  return (
+    <div className="min-h-screen gradient-mesh dark:gradient-mesh-dark">
+      <header className="glass-header dark:glass-header-dark sticky top-0 z-50 backdrop-blur-xl">
+        <div className="container mx-auto px-6 py-5">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <div className="flex h-11 w-11 items-center justify-center rounded-2xl bg-gradient-to-br from-primary to-accent shadow-lg transition-smooth glow-on-hover">
+                <Activity className="h-6 w-6 text-white" />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold tracking-tight text-foreground">Compare Companies</h1>
+                <p className="text-sm text-muted-foreground/80">Side-by-side sentiment and share of voice</p>
+              </div>
+            </div>
+            <Button asChild variant="outline" size="sm" className="rounded-full">
+              <Link href="/">
+                <ArrowLeft className="mr-1 h-4 w-4" />
+                Dashboard
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-6 py-8">
+        {/* Search Bar */}
+        <div className="mb-8 glass-card dark:glass-card-dark rounded-3xl p-6 shadow-2xl">
+          <div className="flex gap-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-4 top-1/2 h-5 w-5 -translate-y-1/2 text-muted-foreground/60" />
+              <Input
+                type="text"
+                placeholder="Your company first, then competitors: Tesla, Rivian, Lucid"
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                onKeyDown={handleKeyDown}
+                className="pl-12 h-12 rounded-2xl border-white/30 bg-white/50 backdrop-blur-sm dark:bg-white/5 dark:border-white/10"
+              />
+            </div>
+            <Button
+              onClick={handleCompare}
+              disabled={isLoading}
+              className="h-12 rounded-2xl px-8 bg-gradient-to-br from-primary to-accent text-white font-medium shadow-lg"
+            >
+              {isLoading ? "Comparing..." : "Compare"}
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-8 glass-card dark:glass-card-dark rounded-3xl border-destructive/30 bg-destructive/5 p-6">
+            <p className="text-destructive font-medium">{error}</p>
+          </div>
+        )}
+
+        {isLoading && (
+          <div className="py-8">
+            <div className="grid gap-6 justify-items-center lg:grid-cols-2">
+              {status?.jobs.map((job) => (
+                <PipelineProgress key={job.id} progress={job.progress} title={job.company} />
+              ))}
+            </div>
+            {status ? (
+              <div className="mt-6 text-center">
+                <Button variant="ghost" size="sm" onClick={handleCancel} className="rounded-xl">
+                  Cancel comparison
+                </Button>
+              </div>
+            ) : (
+              <p className="text-center text-xs text-muted-foreground/60">Starting an analysis for each company...</p>
+            )}
+          </div>
+        )}
+
+        {data && (
+          <>
+            {/* Per-company columns */}
+            <div className="grid gap-6 lg:grid-cols-2 xl:grid-cols-4">
+              {data.companies.map((entry) => (
+                <div key={entry.company} className="glass-card dark:glass-card-dark rounded-3xl p-6 shadow-xl">
+                  <div className="mb-4 flex items-center justify-between">
+                    <h2 className="text-lg font-semibold text-foreground tracking-tight">{entry.company}</h2>
+                    {entry.company === data.baseline ? (
+                      <Badge variant="secondary">baseline</Badge>
+                    ) : (
+                      <Badge variant={entry.scoreDifference >= 0 ? "default" : "destructive"}>
+                        {formatDifference(entry.scoreDifference)} vs {data.baseline}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex justify-center overflow-hidden">
+                    <SentimentGauge score={entry.data.score} />
+                  </div>
+                  <div className="mt-4 grid grid-cols-3 gap-2 text-center text-sm">
+                    <div>
+                      <p className="text-xs uppercase tracking-wider text-muted-foreground/70">Positive</p>
+                      <p className="text-xl font-bold text-chart-3">{entry.data.positive}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs uppercase tracking-wider text-muted-foreground/70">Neutral</p>
+                      <p className="text-xl font-bold text-muted-foreground">{entry.data.neutral}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs uppercase tracking-wider text-muted-foreground/70">Negative</p>
+                      <p className="text-xl font-bold text-destructive">{entry.data.negative}</p>
+                    </div>
+                  </div>
+                  <div className="mt-4">
+                    <div className="mb-1 flex justify-between text-xs text-muted-foreground">
+                      <span>Share of voice</span>
+                      <span>{(entry.shareOfVoice * 100).toFixed(0)}%</span>
+                    </div>
+                    <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+                      <div className="h-full bg-primary" style={{ width: `${entry.shareOfVoice * 100}%` }} />
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Topic overlaps */}
+            <div className="mt-6 glass-card dark:glass-card-dark rounded-3xl p-8 shadow-xl">
+              <h2 className="mb-6 text-lg font-semibold text-foreground tracking-tight">Shared Topics</h2>
+              {data.commonTopics.length === 0 ? (
+                <p className="text-center text-muted-foreground py-4">No topics in common</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs uppercase tracking-wider text-muted-foreground/70">
+                        <th className="py-2 pr-4">Topic</th>
+                        {data.companies.map((entry) => (
+                          <th key={entry.company} className="py-2 pr-4">
+                            {entry.company}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border/50">
+                      {data.commonTopics.map((topic) => (
+                        <tr key={topic.topic}>
+                          <td className="py-3 pr-4 font-medium">{topic.topic}</td>
+                          {data.companies.map((entry) => {
+                            const match = topic.companies.find((c) => c.company === entry.company)
+                            return (
+                              <td key={entry.company} className="py-3 pr-4">
+                                {match ? (
+                                  <span
+                                    className={
+                                      match.averageSentiment < -10
+                                        ? "text-destructive"
+                                        : match.averageSentiment > 10
+                                          ? "text-chart-3"
+                                          : "text-muted-foreground"
+                                    }
+                                  >
+                                    {match.averageSentiment.toFixed(1)}{" "}
+                                    <span className="text-xs text-muted-foreground">({match.mentionCount})</span>
+                                  </span>
+                                ) : (
+                                  <span className="text-muted-foreground/50">—</span>
+                                )}
+                              </td>
+                            )
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <div className="mt-8 grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+                {data.companies.map((entry) => (
+                  <div key={entry.company}>
+                    <p className="mb-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                      Only {entry.company}
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {(data.uniqueTopics[entry.company] ?? []).map((topic) => (
+                        <Badge key={topic} variant="outline">
+                          {topic}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,167 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import Link from "next/link"
+import useSWR from "swr"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Activity, ArrowLeft, Plus, Rss, Trash2 } from "lucide-react"
+import type { FeedSubscription } from "@/lib/types"
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json())
+
+export function FeedManager() {
+  const [companyInput, setCompanyInput] = useState("")
+  const [urlInput, setUrlInput] = useState("")
+  const [formError, setFormError] = useState<string | null>(null)
+  const [isAdding, setIsAdding] = useState(false)
+
+  const { data, error, mutate } = useSWR<{ feeds: FeedSubscription[] }>("/api/feeds", fetcher)
+
+  const feeds = data?.feeds ?? []
+
+  const handleAdd = async () => {
+    if (!companyInput.trim() || !urlInput.trim()) return
+    setFormError(null)
+    setIsAdding(true)
+
+    try {
+      const response = await fetch("/api/feeds", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ company: companyInput.trim(), url: urlInput.trim() }),
+      })
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null)
+        setFormError(body?.error ?? "Failed to add feed")
+        return
+      }
+
+      setUrlInput("")
+      mutate()
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const handleRemove = async (id: string) => {
+    await fetch(`/api/feeds/${id}`, { method: "DELETE" })
+    mutate()
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      handleAdd()
+    }
+  }
+
+  return (
+    <div className="min-h-screen gradient-mesh dark:gradient-mesh-dark">
+      <header className="glass-header dark:glass-header-dark sticky top-0 z-50 backdrop-blur-xl">
+        <div className="container mx-auto px-6 py-5">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <div className="flex h-11 w-11 items-center justify-center rounded-2xl bg-gradient-to-br from-primary to-accent shadow-lg transition-smooth glow-on-hover">
+                <Activity className="h-6 w-6 text-white" />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold tracking-tight text-foreground">Feeds</h1>
+                <p className="text-sm text-muted-foreground/80">Press and blog coverage included in analyses</p>
+              </div>
+            </div>
+            <Button asChild variant="outline" size="sm" className="rounded-full">
+              <Link href="/">
+                <ArrowLeft className="mr-1 h-4 w-4" />
+                Dashboard
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-6 py-8">
+        {/* Add Feed */}
+        <div className="mb-8 glass-card dark:glass-card-dark rounded-3xl p-6 shadow-2xl">
+          <div className="flex gap-3">
+            <Input
+              type="text"
+              placeholder="Company"
+              value={companyInput}
+              onChange={(e) => setCompanyInput(e.target.value)}
+              onKeyDown={handleKeyDown}
+              className="w-56 h-12 rounded-2xl border-white/30 bg-white/50 backdrop-blur-sm dark:bg-white/5 dark:border-white/10"
+            />
+            <Input
+              type="url"
+              placeholder="https://example.com/feed.xml"
+              value={urlInput}
+              onChange={(e) => setUrlInput(e.target.value)}
+              onKeyDown={handleKeyDown}
+              className="flex-1 h-12 rounded-2xl border-white/30 bg-white/50 backdrop-blur-sm dark:bg-white/5 dark:border-white/10"
+            />
+            <Button
+              onClick={handleAdd}
+              disabled={isAdding}
+              className="h-12 rounded-2xl px-6 bg-gradient-to-br from-primary to-accent text-white font-medium shadow-lg"
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              {isAdding ? "Checking..." : "Add"}
+            </Button>
+          </div>
+          {formError && <p className="mt-3 text-sm text-destructive font-medium">{formError}</p>}
+        </div>
+
+        {error && (
+          <div className="mb-8 glass-card dark:glass-card-dark rounded-3xl border-destructive/30 bg-destructive/5 p-6">
+            <p className="text-destructive font-medium">Failed to load feeds. Please try again.</p>
+          </div>
+        )}
+
+        {/* Feeds */}
+        <div className="glass-card dark:glass-card-dark rounded-3xl p-8 shadow-xl">
+          {feeds.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No feeds registered yet</p>
+          ) : (
+            <div className="space-y-3">
+              {feeds.map((feed) => (
+                <div
+                  key={feed.id}
+                  className="flex items-center gap-4 rounded-2xl border border-white/20 dark:border-white/10 bg-white/40 dark:bg-white/5 p-5"
+                >
+                  <Rss className="h-4 w-4 text-primary" />
+                  <div className="min-w-0">
+                    <p className="font-medium text-foreground">
+                      {feed.company}
+                      {feed.title && <span className="ml-2 text-muted-foreground font-normal">{feed.title}</span>}
+                    </p>
+                    <p className="truncate text-xs text-muted-foreground">{feed.url}</p>
+                  </div>
+                  {feed.lastError && (
+                    <Badge variant="destructive" title={feed.lastError}>
+                      last fetch failed
+                    </Badge>
+                  )}
+
+                  <div className="ml-auto flex items-center gap-3 text-xs text-muted-foreground">
+                    <span>
+                      Last read: {feed.lastFetchedAt ? new Date(feed.lastFetchedAt).toLocaleString() : "never"}
+                    </span>
+                    <Button variant="ghost" size="sm" onClick={() => handleRemove(feed.id)} title="Remove">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,267 @@
+"use client"
+
+import type React from "react"
+
+import { useMemo, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Activity, ArrowLeft, FileUp } from "lucide-react"
+import { FeedbackImporter, type ParsedFeedback } from "@/lib/feedback-import"
+import { LocalStorage } from "@/lib/storage"
+import type { ColumnMapping, FeedbackFormat, FeedbackRowError } from "@/lib/types"
+
+type MappingField = keyof ColumnMapping
+
+const MAPPING_FIELDS: Array<{ field: MappingField; label: string; pattern: RegExp }> = [
+  { field: "text", label: "Feedback text (required)", pattern: /text|comment|feedback|body|message|verbatim|response/i },
+  { field: "author", label: "Author", pattern: /author|user|customer|name|email/i },
+  { field: "date", label: "Date", pattern: /date|time|created|submitted/i },
+  { field: "url", label: "URL", pattern: /url|link/i },
+  { field: "channel", label: "Channel", pattern: /channel|source|category|product|queue/i },
+]
+
+const selectClassName =
+  "h-10 w-full rounded-xl border border-white/30 bg-white/50 px-3 text-sm text-foreground backdrop-blur-sm dark:bg-white/5 dark:border-white/10"
+
+/**
+ * Picks the first column whose name looks like each field, without reusing a column
+ */
+const guessMapping = (columns: string[]): ColumnMapping => {
+  const used = new Set<string>()
+  const mapping: Partial<ColumnMapping> = {}
+
+  for (const { field, pattern } of MAPPING_FIELDS) {
+    const match = columns.find((column) => !used.has(column) && pattern.test(column))
+    if (match) {
+      mapping[field] = match
+      used.add(match)
+    }
+  }
+
+  return { ...mapping, text: mapping.text ?? columns[0] ?? "" }
+}
+
+export function FeedbackUpload() {
+  const router = useRouter()
+  const [company, setCompany] = useState("")
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [content, setContent] = useState("")
+  const [format, setFormat] = useState<FeedbackFormat>("csv")
+  const [parsed, setParsed] = useState<ParsedFeedback | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({ text: "" })
+  const [parseError, setParseError] = useState<string | null>(null)
+  const [submitError, setSubmitError] = useState<string | null>(null)
+  const [serverRowErrors, setServerRowErrors] = useState<FeedbackRowError[]>([])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Validate in the browser as the mapping changes; the server repeats the same checks
+  const validation = useMemo(() => (parsed ? FeedbackImporter.toMentions(parsed, mapping) : null), [parsed, mapping])
+  const rowErrors = serverRowErrors.length > 0 ? serverRowErrors : (validation?.errors ?? [])
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    setParseError(null)
+    setSubmitError(null)
+    setServerRowErrors([])
+    setParsed(null)
+
+    if (file.size > FeedbackImporter.MAX_BYTES) {
+      setParseError("Files are limited to 5 MB")
+      return
+    }
+
+    const text = await file.text()
+    const detected = FeedbackImporter.detectFormat(file.name)
+    setFileName(file.name)
+    setContent(text)
+    setFormat(detected)
+
+    try {
+      const result = FeedbackImporter.parse(text, detected)
+      setParsed(result)
+      setMapping(guessMapping(result.columns))
+    } catch (err) {
+      setParseError(err instanceof Error ? err.message : "Could not read the file")
+    }
+  }
+
+  const handleMappingChange = (field: MappingField, column: string) => {
+    setServerRowErrors([])
+    setMapping({ ...mapping, [field]: column || undefined } as ColumnMapping)
+  }
+
+  const handleSubmit = async () => {
+    if (!company.trim() || !validation || validation.mentions.length === 0) return
+
+    setSubmitError(null)
+    setIsSubmitting(true)
+    try {
+      const response = await fetch("/api/uploads", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ company: company.trim(), format, content, mapping }),
+      })
+      const body = await response.json().catch(() => null)
+
+      if (!response.ok) {
+        setServerRowErrors(body?.rowErrors ?? [])
+        throw new Error(body?.error ?? "Failed to start the analysis")
+      }
+
+      // The dashboard resumes the active job on load and shows its progress
+      LocalStorage.setActiveJob({ id: body.id, company: company.trim() })
+      router.push("/")
+    } catch (err) {
+      console.error("Failed to upload feedback:", err)
+      setSubmitError(err instanceof Error ? err.message : "Failed to start the analysis")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const canSubmit =
+    !!company.trim() && !!validation && validation.mentions.length > 0 && validation.errors.length === 0 && !isSubmitting
+
+  return (
+    <div className="min-h-screen gradient-mesh dark:gradient-mesh-dark">
+      <header className="glass-header dark:glass-header-dark sticky top-0 z-50 backdrop-blur-xl">
+        <div className="container mx-auto px-6 py-5">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <div className="flex h-11 w-11 items-center justify-center rounded-2xl bg-gradient-to-br from-primary to-accent shadow-lg transition-smooth glow-on-hover">
+                <Activity className="h-6 w-6 text-white" />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold tracking-tight text-foreground">Upload Feedback</h1>
+                <p className="text-sm text-muted-foreground/80">Analyze support tickets, NPS verbatims and surveys</p>
+              </div>
+            </div>
+            <Button asChild variant="outline" size="sm" className="rounded-full">
+              <Link href="/">
+                <ArrowLeft className="mr-1 h-4 w-4" />
+                Dashboard
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-6 py-8">
+        {/* File and company */}
+        <div className="mb-8 glass-card dark:glass-card-dark rounded-3xl p-6 shadow-2xl">
+          <div className="grid gap-4 md:grid-cols-2">
+            <label className="space-y-1.5 text-xs font-medium text-muted-foreground">
+              <span>Company or product</span>
+              <Input
+                type="text"
+                placeholder="e.g. Acme"
+                value={company}
+                onChange={(e) => setCompany(e.target.value)}
+                className="h-12 rounded-2xl border-white/30 bg-white/50 backdrop-blur-sm dark:bg-white/5 dark:border-white/10"
+              />
+            </label>
+            <label className="space-y-1.5 text-xs font-medium text-muted-foreground">
+              <span>CSV or JSONL file (up to 5 MB)</span>
+              <div className="flex h-12 items-center gap-3 rounded-2xl border border-dashed border-white/40 bg-white/30 px-4 dark:bg-white/5 dark:border-white/10">
+                <FileUp className="h-5 w-5 text-muted-foreground/60" />
+                <input
+                  type="file"
+                  accept=".csv,.jsonl,.ndjson,text/csv,application/x-ndjson"
+                  onChange={handleFileChange}
+                  className="text-sm text-foreground file:mr-3 file:rounded-full file:border-0 file:bg-primary/10 file:px-3 file:py-1 file:text-primary"
+                />
+              </div>
+            </label>
+          </div>
+          {parseError && <p className="mt-3 text-sm text-destructive font-medium">{parseError}</p>}
+        </div>
+
+        {parsed && (
+          <>
+            {/* Column mapping */}
+            <div className="mb-8 glass-card dark:glass-card-dark rounded-3xl p-6 shadow-xl">
+              <div className="mb-4 flex items-center gap-3">
+                <h2 className="text-lg font-semibold text-foreground tracking-tight">Map columns</h2>
+                <Badge variant="secondary">{format.toUpperCase()}</Badge>
+                <span className="text-sm text-muted-foreground">
+                  {fileName} · {parsed.rows.length} rows
+                </span>
+              </div>
+              <div className="grid gap-4 md:grid-cols-5">
+                {MAPPING_FIELDS.map(({ field, label }) => (
+                  <label key={field} className="space-y-1.5 text-xs font-medium text-muted-foreground">
+                    <span>{label}</span>
+                    <select
+                      value={mapping[field] ?? ""}
+                      onChange={(e) => handleMappingChange(field, e.target.value)}
+                      className={selectClassName}
+                    >
+                      {field !== "text" && <option value="">(none)</option>}
+                      {parsed.columns.map((column) => (
+                        <option key={column} value={column}>
+                          {column}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {/* Preview and validation */}
+            <div className="mb-8 glass-card dark:glass-card-dark rounded-3xl p-6 shadow-xl">
+              <h2 className="mb-4 text-lg font-semibold text-foreground tracking-tight">Preview</h2>
+              {validation && (
+                <p className="mb-4 text-sm text-muted-foreground">
+                  {validation.mentions.length} rows ready to analyze. Rows without customer sentiment are skipped, and the
+                  dashboard shows how many were analyzed
+                  {rowErrors.length > 0 && ` · ${rowErrors.length} problems to fix`}
+                </p>
+              )}
+
+              {rowErrors.length > 0 && (
+                <ul className="mb-4 space-y-1 text-sm text-destructive">
+                  {rowErrors.slice(0, 10).map((error) => (
+                    <li key={`${error.row}-${error.message}`}>
+                      {error.row > 0 ? `Row ${error.row}: ` : ""}
+                      {error.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="divide-y divide-border/50 text-sm">
+                {validation?.mentions.slice(0, 5).map((mention) => (
+                  <div key={mention.id} className="py-3">
+                    <p className="text-foreground/90">{mention.text.slice(0, 200)}</p>
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      {mention.author} · {mention.channel} · {new Date(mention.created).toLocaleDateString()}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="mt-6 flex items-center justify-end gap-4">
+                {submitError && <p className="text-sm text-destructive font-medium">{submitError}</p>}
+                <Button
+                  onClick={handleSubmit}
+                  disabled={!canSubmit}
+                  className="h-12 rounded-2xl px-8 bg-gradient-to-br from-primary to-accent text-white font-medium shadow-lg"
+                >
+                  {isSubmitting ? "Starting..." : "Analyze feedback"}
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
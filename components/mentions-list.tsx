@@ -1,24 +1,71 @@
 "use client"
 
+import { useState } from "react"
 import { Badge } from "@/components/ui/badge"
-import { ExternalLink } from "lucide-react"
+import { ArrowUp, CornerDownRight, ExternalLink, Languages } from "lucide-react"
 
 interface Mention {
   id: string
   text: string
   sentiment: "positive" | "neutral" | "negative"
   score: number
+  source: string
+  channel: string
   author: string
-  subreddit: string
   created: string
   url: string
+  engagement?: number
+  kind?: "post" | "comment"
+  postTitle?: string
+  depth?: number
+  duplicateCount?: number
+  language?: string
+  sentimentMethod?: "llm" | "lexicon"
 }
 
+// How each source labels its channels and authors; unknown sources show them as-is
+const SOURCE_FORMATS: Record<string, { label: string; channel: (c: string) => string; author: (a: string) => string }> = {
+  reddit: { label: "Reddit", channel: (c) => `r/${c}`, author: (a) => `u/${a}` },
+  hackernews: { label: "Hacker News", channel: (c) => c, author: (a) => a },
+  feeds: { label: "RSS", channel: (c) => c, author: (a) => a },
+  upload: { label: "Upload", channel: (c) => c, author: (a) => a },
+}
+
+const getSourceFormat = (source: string) =>
+  SOURCE_FORMATS[source] ?? { label: source, channel: (c: string) => c, author: (a: string) => a }
+
 interface MentionsListProps {
   mentions: Mention[]
 }
 
+// English and undetermined text is shown as-is
+const isTranslatable = (language?: string) => !!language && language !== "en" && language !== "und"
+
 export function MentionsList({ mentions }: MentionsListProps) {
+  // Translations are fetched on demand and kept per mention for this view only
+  const [translations, setTranslations] = useState<Record<string, string>>({})
+  const [translating, setTranslating] = useState<string | null>(null)
+
+  const handleTranslate = async (key: string, text: string) => {
+    setTranslating(key)
+    try {
+      const response = await fetch("/api/translate", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ text }),
+      })
+      const body = await response.json()
+      if (!response.ok) throw new Error(body?.error ?? "Failed to translate")
+      setTranslations((current) => ({ ...current, [key]: body.translation }))
+    } catch (err) {
+      console.error("Failed to translate mention:", err)
+    } finally {
+      setTranslating(null)
+    }
+  }
+
   const getSentimentColor = (sentiment: string) => {
     switch (sentiment) {
       case "positive":
@@ -37,29 +84,76 @@ export function MentionsList({ mentions }: MentionsListProps) {
       ) : (
         mentions.map((mention) => (
           <div
-            key={mention.id}
+            key={`${mention.source}:${mention.id}`}
             className="rounded-2xl border border-white/20 dark:border-white/10 bg-white/40 dark:bg-white/5 backdrop-blur-sm p-5 transition-smooth hover:bg-white/60 dark:hover:bg-white/10 hover:scale-[1.02] hover:shadow-lg"
           >
             <div className="mb-3 flex items-start justify-between gap-4">
               <div className="flex-1">
+                {/* Comments show the thread they were posted in */}
+                {mention.kind === "comment" && mention.postTitle && (
+                  <p className="mb-1.5 flex items-center gap-1.5 text-xs text-muted-foreground">
+                    <CornerDownRight className="h-3.5 w-3.5 shrink-0" />
+                    <span className="truncate">
+                      {mention.depth ? "Reply" : "Comment"} in &ldquo;{mention.postTitle}&rdquo;
+                    </span>
+                  </p>
+                )}
                 <p className="text-sm leading-relaxed text-foreground/90">{mention.text}</p>
+                {translations[`${mention.source}:${mention.id}`] && (
+                  <p className="mt-2 border-l-2 border-primary/30 pl-3 text-sm leading-relaxed text-muted-foreground">
+                    {translations[`${mention.source}:${mention.id}`]}
+                  </p>
+                )}
               </div>
               <Badge className={`${getSentimentColor(mention.sentiment)} rounded-full font-medium`}>
                 {mention.sentiment}
               </Badge>
             </div>
             <div className="flex items-center gap-4 text-xs text-muted-foreground/80">
-              <span className="font-medium">r/{mention.subreddit}</span>
-              <span>u/{mention.author}</span>
+              <Badge variant="outline" className="rounded-full">
+                {getSourceFormat(mention.source).label}
+              </Badge>
+              <span className="font-medium">{getSourceFormat(mention.source).channel(mention.channel)}</span>
+              <span>{getSourceFormat(mention.source).author(mention.author)}</span>
               <span>{new Date(mention.created).toLocaleDateString()}</span>
-              <a
-                href={mention.url}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="ml-auto flex items-center gap-1.5 text-primary hover:text-primary/80 transition-smooth font-medium"
-              >
-                View <ExternalLink className="h-3.5 w-3.5" />
-              </a>
+              {isTranslatable(mention.language) && (
+                <button
+                  onClick={() => handleTranslate(`${mention.source}:${mention.id}`, mention.text)}
+                  disabled={translating === `${mention.source}:${mention.id}` || !!translations[`${mention.source}:${mention.id}`]}
+                  className="flex items-center gap-1 font-medium text-primary hover:text-primary/80 disabled:text-muted-foreground transition-smooth"
+                  title="Translate to English"
+                >
+                  <Languages className="h-3.5 w-3.5" />
+                  {mention.language!.toUpperCase()}
+                </button>
+              )}
+              {mention.sentimentMethod === "lexicon" && (
+                <Badge variant="outline" className="rounded-full" title="Scored by the offline lexicon instead of the AI model">
+                  lexicon
+                </Badge>
+              )}
+              {!!mention.duplicateCount && (
+                <Badge variant="secondary" className="rounded-full" title="Near-identical posts or comments merged into this one">
+                  +{mention.duplicateCount} similar
+                </Badge>
+              )}
+              {mention.engagement !== undefined && mention.source !== "upload" && (
+                <span className="flex items-center gap-0.5">
+                  <ArrowUp className="h-3.5 w-3.5" />
+                  {mention.engagement}
+                </span>
+              )}
+              {/* Uploaded rows may not have a link */}
+              {mention.url && (
+                <a
+                  href={mention.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="ml-auto flex items-center gap-1.5 text-primary hover:text-primary/80 transition-smooth font-medium"
+                >
+                  View <ExternalLink className="h-3.5 w-3.5" />
+                </a>
+              )}
             </div>
           </div>
         ))
@@ -0,0 +1,100 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { CheckCircle2 } from "lucide-react"
+import type { PipelineProgressState } from "@/lib/pipeline-progress"
+import type { PipelineCounts, PipelineStage } from "@/lib/types"
+
+const STAGES: Array<{ stage: PipelineStage; label: string; count?: (counts: PipelineCounts) => string | null }> = [
+  {
+    stage: "topics",
+    label: "Generating relevant topics",
+    count: (c) => (c.topicsGenerated !== undefined ? `${c.topicsGenerated} topics` : null),
+  },
+  {
+    stage: "search",
+    label: "Searching discussions",
+    count: (c) => (c.postsFound !== undefined ? `${c.postsFound} posts` : null),
+  },
+  {
+    stage: "comments",
+    label: "Collecting comments",
+    count: (c) => (c.commentsCollected !== undefined ? `${c.commentsCollected} comments` : null),
+  },
+  {
+    stage: "relevance",
+    label: "Filtering for relevance",
+    count: (c) => {
+      if (c.itemsKept === undefined) return null
+      const notes = [
+        c.lowQualityRemoved ? `${c.lowQualityRemoved} low-quality dropped` : null,
+        c.duplicatesCollapsed ? `${c.duplicatesCollapsed} duplicates merged` : null,
+      ].filter(Boolean)
+      return [`${c.itemsKept} kept`, ...notes].join(", ")
+    },
+  },
+  {
+    stage: "sentiment",
+    label: "Analyzing with AI",
+    count: (c) => (c.mentionsAnalyzed !== undefined ? `${c.mentionsAnalyzed} analyzed` : null),
+  },
+  {
+    stage: "clustering",
+    label: "Clustering topics",
+    count: (c) => (c.clustersFound !== undefined ? `${c.clustersFound} clusters` : null),
+  },
+  {
+    stage: "recommendations",
+    label: "Generating recommendations",
+    count: (c) => (c.recommendationsGenerated !== undefined ? `${c.recommendationsGenerated} ideas` : null),
+  },
+]
+
+interface PipelineProgressProps {
+  progress: PipelineProgressState
+  onCancel?: () => void
+  title?: string
+}
+
+export function PipelineProgress({ progress, onCancel, title = "Analyzing Sentiment" }: PipelineProgressProps) {
+  return (
+    <div className="text-center glass-card dark:glass-card-dark rounded-3xl p-8 max-w-md w-full">
+      <div className="mb-6 inline-block h-12 w-12 animate-spin rounded-full border-4 border-primary/30 border-t-primary" />
+      <h3 className="text-lg font-semibold text-foreground mb-3">{title}</h3>
+      <div className="space-y-2 text-sm text-left">
+        {STAGES.map(({ stage, label, count }) => {
+          const isDone = progress.completed.includes(stage)
+          const isActive = progress.activeStage === stage
+          const countLabel = isDone || isActive ? count?.(progress.counts) : null
+
+          return (
+            <div
+              key={stage}
+              className={`flex items-center justify-between gap-3 ${
+                isActive ? "text-foreground font-medium" : isDone ? "text-muted-foreground" : "text-muted-foreground/50"
+              }`}
+            >
+              <span className="flex items-center gap-2">
+                {isDone ? (
+                  <CheckCircle2 className="h-3.5 w-3.5 text-chart-3" />
+                ) : (
+                  <span
+                    className={`inline-block h-2 w-2 mx-[3px] rounded-full ${isActive ? "bg-primary animate-pulse" : "bg-muted-foreground/30"}`}
+                  />
+                )}
+                {label}
+              </span>
+              {countLabel && <span className="text-xs tabular-nums">{countLabel}</span>}
+            </div>
+          )
+        })}
+      </div>
+      <p className="mt-6 text-xs text-muted-foreground/60">{progress.message ?? "This may take 30-60 seconds..."}</p>
+      {onCancel && (
+        <Button variant="ghost" size="sm" onClick={onCancel} className="mt-4 rounded-xl">
+          Cancel analysis
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -60,14 +60,15 @@ export function PostGeneratorModal({
       })
 
       if (!response.ok) {
-        throw new Error("Failed to generate posts")
+        const body = await response.json().catch(() => null)
+        throw new Error(body?.error ?? "Failed to generate posts")
       }
 
       const data = await response.json()
       setPosts(data.posts)
     } catch (error) {
       console.error("Error generating posts:", error)
-      alert("Failed to generate posts. Please try again.")
+      alert(error instanceof Error ? error.message : "Failed to generate posts. Please try again.")
     } finally {
       setIsGenerating(false)
     }
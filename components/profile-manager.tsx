@@ -0,0 +1,250 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import Link from "next/link"
+import useSWR from "swr"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Activity, ArrowLeft, ChevronDown, ChevronRight, Plus, Trash2 } from "lucide-react"
+import type { CompanyProfile } from "@/lib/types"
+
+type ListField = "aliases" | "products" | "handles" | "negativePatterns" | "competitors"
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json())
+
+const LIST_FIELDS: Array<{ key: ListField; label: string; placeholder: string; hint?: string }> = [
+  { key: "aliases", label: "Aliases", placeholder: "Facebook, Meta Platforms" },
+  { key: "products", label: "Products", placeholder: "Instagram, WhatsApp, Quest 3" },
+  { key: "handles", label: "Official accounts", placeholder: "@Meta, @MetaQuestVR" },
+  {
+    key: "negativePatterns",
+    label: "Not about the company",
+    placeholder: "meta tag, meta-analysis, /\\bmeta\\s+builds?\\b/",
+    hint: "Phrases for other meanings of the name. Wrap a regular expression in slashes",
+  },
+  { key: "competitors", label: "Competitors", placeholder: "TikTok, Snapchat" },
+]
+
+export function ProfileManager() {
+  const [companyInput, setCompanyInput] = useState("")
+  const [formError, setFormError] = useState<string | null>(null)
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  const { data, error, mutate } = useSWR<{ profiles: CompanyProfile[] }>("/api/profiles", fetcher)
+
+  const profiles = data?.profiles ?? []
+
+  const handleAdd = async () => {
+    if (!companyInput.trim()) return
+    setFormError(null)
+
+    const response = await fetch("/api/profiles", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ company: companyInput.trim() }),
+    })
+
+    const body = await response.json().catch(() => null)
+    if (!response.ok) {
+      setFormError(body?.error ?? "Failed to add profile")
+      return
+    }
+
+    setCompanyInput("")
+    setExpanded(body.id)
+    mutate()
+  }
+
+  const handleRemove = async (id: string) => {
+    await fetch(`/api/profiles/${id}`, { method: "DELETE" })
+    mutate()
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      handleAdd()
+    }
+  }
+
+  return (
+    <div className="min-h-screen gradient-mesh dark:gradient-mesh-dark">
+      <header className="glass-header dark:glass-header-dark sticky top-0 z-50 backdrop-blur-xl">
+        <div className="container mx-auto px-6 py-5">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <div className="flex h-11 w-11 items-center justify-center rounded-2xl bg-gradient-to-br from-primary to-accent shadow-lg transition-smooth glow-on-hover">
+                <Activity className="h-6 w-6 text-white" />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold tracking-tight text-foreground">Company Profiles</h1>
+                <p className="text-sm text-muted-foreground/80">Names, products and exclusions used to find mentions</p>
+              </div>
+            </div>
+            <Button asChild variant="outline" size="sm" className="rounded-full">
+              <Link href="/">
+                <ArrowLeft className="mr-1 h-4 w-4" />
+                Dashboard
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-6 py-8">
+        {/* Add Profile */}
+        <div className="mb-8 glass-card dark:glass-card-dark rounded-3xl p-6 shadow-2xl">
+          <div className="flex gap-3">
+            <Input
+              type="text"
+              placeholder="Company name..."
+              value={companyInput}
+              onChange={(e) => setCompanyInput(e.target.value)}
+              onKeyDown={handleKeyDown}
+              className="flex-1 h-12 rounded-2xl border-white/30 bg-white/50 backdrop-blur-sm dark:bg-white/5 dark:border-white/10"
+            />
+            <Button
+              onClick={handleAdd}
+              className="h-12 rounded-2xl px-6 bg-gradient-to-br from-primary to-accent text-white font-medium shadow-lg"
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Add
+            </Button>
+          </div>
+          {formError && <p className="mt-3 text-sm text-destructive font-medium">{formError}</p>}
+        </div>
+
+        {error && (
+          <div className="mb-8 glass-card dark:glass-card-dark rounded-3xl border-destructive/30 bg-destructive/5 p-6">
+            <p className="text-destructive font-medium">Failed to load company profiles. Please try again.</p>
+          </div>
+        )}
+
+        {/* Profiles */}
+        <div className="glass-card dark:glass-card-dark rounded-3xl p-8 shadow-xl">
+          {profiles.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No company profiles yet</p>
+          ) : (
+            <div className="space-y-3">
+              {profiles.map((profile) => (
+                <div
+                  key={profile.id}
+                  className="rounded-2xl border border-white/20 dark:border-white/10 bg-white/40 dark:bg-white/5 p-5"
+                >
+                  <div className="flex items-center gap-4">
+                    <button
+                      onClick={() => setExpanded(expanded === profile.id ? null : profile.id)}
+                      className="flex items-center gap-2 font-medium text-foreground"
+                    >
+                      {expanded === profile.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      {profile.company}
+                    </button>
+                    {profile.ticker && <Badge variant="secondary">${profile.ticker}</Badge>}
+
+                    <div className="ml-auto flex items-center gap-3 text-xs text-muted-foreground">
+                      <span>
+                        {profile.aliases.length} aliases · {profile.products.length} products ·{" "}
+                        {profile.negativePatterns.length} exclusions
+                      </span>
+                      <Button variant="ghost" size="sm" onClick={() => handleRemove(profile.id)} title="Remove">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  {expanded === profile.id && <ProfileEditor profile={profile} onSaved={() => mutate()} />}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function ProfileEditor({ profile, onSaved }: { profile: CompanyProfile; onSaved: () => void }) {
+  const [company, setCompany] = useState(profile.company)
+  const [ticker, setTicker] = useState(profile.ticker ?? "")
+  // Lists are edited as comma-separated text and split by the server
+  const [lists, setLists] = useState<Record<ListField, string>>(() => ({
+    aliases: profile.aliases.join(", "),
+    products: profile.products.join(", "),
+    handles: profile.handles.join(", "),
+    negativePatterns: profile.negativePatterns.join(", "),
+    competitors: profile.competitors.join(", "),
+  }))
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSave = async () => {
+    setSaveError(null)
+    setIsSaving(true)
+
+    try {
+      const response = await fetch(`/api/profiles/${profile.id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ company, ticker, ...lists }),
+      })
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null)
+        const details = body?.details ? Object.values(body.details as Record<string, string[]>).flat() : []
+        setSaveError(details[0] ?? body?.error ?? "Failed to save profile")
+        return
+      }
+
+      onSaved()
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const inputClassName = "h-10 rounded-xl border-white/30 bg-white/50 dark:bg-white/5 dark:border-white/10"
+
+  return (
+    <div className="mt-4 space-y-4 text-sm">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <label className="space-y-1.5">
+          <span className="font-medium text-foreground">Company</span>
+          <Input value={company} onChange={(e) => setCompany(e.target.value)} className={inputClassName} />
+        </label>
+        <label className="space-y-1.5">
+          <span className="font-medium text-foreground">Ticker</span>
+          <Input value={ticker} placeholder="META" onChange={(e) => setTicker(e.target.value)} className={inputClassName} />
+        </label>
+      </div>
+
+      {LIST_FIELDS.map((field) => (
+        <label key={field.key} className="block space-y-1.5">
+          <span className="font-medium text-foreground">{field.label}</span>
+          <Input
+            value={lists[field.key]}
+            placeholder={field.placeholder}
+            onChange={(e) => setLists({ ...lists, [field.key]: e.target.value })}
+            className={inputClassName}
+          />
+          {field.hint && <span className="block text-xs text-muted-foreground">{field.hint}</span>}
+        </label>
+      ))}
+
+      <div className="flex items-center gap-3">
+        <Button
+          onClick={handleSave}
+          disabled={isSaving || !company.trim()}
+          className="rounded-xl bg-gradient-to-br from-primary to-accent text-white font-medium"
+        >
+          {isSaving ? "Saving..." : "Save"}
+        </Button>
+        {saveError && <p className="text-destructive font-medium">{saveError}</p>}
+      </div>
+    </div>
+  )
+}
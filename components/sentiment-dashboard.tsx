@@ -3,6 +3,7 @@
 import type React from "react"
 
 import { useState, useEffect } from "react"
+import Link from "next/link"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -12,90 +13,204 @@ import { SentimentChart } from "@/components/sentiment-chart"
 import { AiInsights } from "@/components/ai-insights"
 import { TopicClusters } from "@/components/topic-clusters"
 import { Recommendations } from "@/components/recommendations"
-import { Search, TrendingUp, MessageSquare, Activity, RefreshCw, Clock, History } from "lucide-react"
+import { PipelineProgress } from "@/components/pipeline-progress"
+import { AdvancedOptions } from "@/components/advanced-options"
+import {
+  Search,
+  TrendingUp,
+  MessageSquare,
+  Activity,
+  RefreshCw,
+  Clock,
+  History,
+  Eye,
+  GitCompare,
+  SlidersHorizontal,
+  Upload,
+  Rss,
+  Building2,
+} from "lucide-react"
 import useSWR from "swr"
 import { LocalStorage, type SearchHistoryItem } from "@/lib/storage"
-import type { TopicCluster, ActionableRecommendation } from "@/lib/types"
-
-interface SentimentData {
-  score: number
-  total: number
-  positive: number
-  neutral: number
-  negative: number
-  mentions: Array<{
-    id: string
-    text: string
-    body?: string
-    sentiment: "positive" | "neutral" | "negative"
-    score: number
-    author: string
-    subreddit: string
-    created: string
-    url: string
-  }>
-  history: Array<{
-    timestamp: string
-    score: number
-  }>
-  topicClusters?: TopicCluster[]
-  recommendations?: ActionableRecommendation[]
+import { initialPipelineProgress } from "@/lib/pipeline-progress"
+import type { AnalysisJob } from "@/lib/analysis-jobs"
+import { DEFAULT_ANALYSIS_PARAMETERS } from "@/lib/analysis-parameters"
+import type { AnalysisParameters, AnalysisSnapshot } from "@/lib/types"
+
+class RequestError extends Error {
+  constructor(readonly status: number) {
+    super(`Request failed with status ${status}`)
+  }
 }
 
-const fetcher = (url: string) => fetch(url).then((res) => res.json())
+const fetcher = (url: string) =>
+  fetch(url).then((res) => {
+    if (!res.ok) throw new RequestError(res.status)
+    return res.json()
+  })
+
+const isJobActive = (job: AnalysisJob) => job.status === "queued" || job.status === "running"
+
+interface SentimentDashboardProps {
+  snapshotId?: string
+}
 
-export function SentimentDashboard() {
+export function SentimentDashboard({ snapshotId }: SentimentDashboardProps) {
   const [company, setCompany] = useState("Tesla")
   const [searchInput, setSearchInput] = useState("Tesla")
   const [searchHistory, setSearchHistory] = useState<SearchHistoryItem[]>([])
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
   const [showHistory, setShowHistory] = useState(false)
   const [mounted, setMounted] = useState(false)
+  const [jobId, setJobId] = useState<string | null>(null)
+  const [isStarting, setIsStarting] = useState(false)
+  const [startError, setStartError] = useState<string | null>(null)
+  const [showAdvanced, setShowAdvanced] = useState(false)
+  const [parameters, setParameters] = useState<AnalysisParameters>(DEFAULT_ANALYSIS_PARAMETERS)
+  const [viewSnapshotId, setViewSnapshotId] = useState<string | null>(snapshotId ?? null)
+  const [showWeighted, setShowWeighted] = useState(false)
 
   useEffect(() => {
     setMounted(true)
   }, [])
 
-  const { data, error, isLoading, mutate } = useSWR<SentimentData>(
-    `/api/sentiment?company=${encodeURIComponent(company)}`,
+  const startAnalysis = async (name: string, refresh = false) => {
+    if (viewSnapshotId) {
+      setViewSnapshotId(null)
+      window.history.replaceState(null, "", "/")
+    }
+    setCompany(name)
+    setStartError(null)
+    setIsStarting(true)
+    try {
+      const response = await fetch("/api/analyses", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ company: name, parameters, refresh }),
+      })
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null)
+        const details = body?.details ? Object.values(body.details as Record<string, string[]>).flat().join(". ") : ""
+        throw new Error(details ? `${body.error}: ${details}` : "Failed to start analysis")
+      }
+
+      const job: AnalysisJob = await response.json()
+      LocalStorage.setActiveJob({ id: job.id, company: name })
+      setJobId(job.id)
+    } catch (err) {
+      console.error("Failed to start analysis:", err)
+      setStartError(err instanceof Error ? err.message : "Failed to start analysis")
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  // Resume watching the last job after a reload, otherwise start with the default company
+  useEffect(() => {
+    if (viewSnapshotId) return
+
+    const activeJob = LocalStorage.getActiveJob()
+    if (activeJob) {
+      setCompany(activeJob.company)
+      setSearchInput(activeJob.company)
+      setJobId(activeJob.id)
+    } else {
+      startAnalysis(company)
+    }
+  }, [])
+
+  const { data: job, error: jobError, mutate } = useSWR<AnalysisJob>(jobId ? `/api/analyses/${jobId}` : null, fetcher, {
+    revalidateOnFocus: false, // Disabled for testing to avoid Reddit rate limits
+    refreshInterval: (latest) => (latest && isJobActive(latest) ? 1500 : 0),
+    onSuccess: (latest) => {
+      // A finished job has nothing left to resume after a reload
+      if (!isJobActive(latest)) {
+        LocalStorage.clearActiveJob()
+      }
+      if (latest.status === "completed") {
+        setLastUpdated(new Date(latest.result?.cache?.computedAt ?? latest.updatedAt))
+      }
+    },
+    onError: (err) => {
+      // The server restarted or pruned the job, so analyze the company again instead
+      if (err instanceof RequestError && err.status === 404) {
+        LocalStorage.clearActiveJob()
+        setJobId(null)
+        startAnalysis(company)
+      }
+    },
+  })
+
+  const { data: snapshot, error: snapshotError } = useSWR<AnalysisSnapshot>(
+    viewSnapshotId ? `/api/snapshots/${viewSnapshotId}` : null,
     fetcher,
     {
-      revalidateOnFocus: false, // Disabled for testing to avoid Reddit rate limits
-      onSuccess: () => {
-        setLastUpdated(new Date())
+      revalidateOnFocus: false,
+      onSuccess: (loaded) => {
+        setCompany(loaded.company)
+        setSearchInput(loaded.company)
+        setLastUpdated(new Date(loaded.createdAt))
       },
     },
   )
 
+  const data = viewSnapshotId ? snapshot?.data : job?.status === "completed" ? job.result : undefined
+  // Older snapshots have no weighted score, so they always show the plain average
+  const weighted = showWeighted && data?.weightedScore !== undefined
+  const displayedScore = (weighted ? data?.weightedScore : data?.score) ?? 0
+  const lexiconScored = data?.mentions?.filter((m) => m.sentimentMethod === "lexicon").length ?? 0
+  const isLoading = viewSnapshotId
+    ? !snapshot && !snapshotError
+    : isStarting || (jobId !== null && !jobError && (!job || isJobActive(job)))
+  const error = viewSnapshotId
+    ? snapshotError
+    : startError || jobError || job?.status === "failed" || job?.status === "rate_limited"
+
   useEffect(() => {
     setSearchHistory(LocalStorage.getSearchHistory())
   }, [])
 
   useEffect(() => {
-    if (data && !isLoading) {
+    // Uploads stay out of the search history since they can't be re-run by name
+    if (job?.status === "completed" && job.result && job.kind !== "upload") {
       LocalStorage.addToHistory({
-        company,
-        timestamp: new Date().toISOString(),
-        score: data.score,
+        company: job.company,
+        timestamp: job.updatedAt,
+        score: job.result.score,
       })
       setSearchHistory(LocalStorage.getSearchHistory())
     }
-  }, [data, company, isLoading])
+  }, [job?.id, job?.status])
 
   const handleSearch = () => {
     if (searchInput.trim()) {
-      setCompany(searchInput.trim())
+      startAnalysis(searchInput.trim())
       setShowHistory(false)
     }
   }
 
+  // The refresh button always recomputes instead of reusing a cached result
   const handleRefresh = () => {
-    mutate()
+    startAnalysis(company, true)
+  }
+
+  const handleCancel = async () => {
+    if (!jobId) return
+    try {
+      await fetch(`/api/analyses/${jobId}`, { method: "DELETE" })
+      LocalStorage.clearActiveJob()
+      mutate()
+    } catch (err) {
+      console.error("Failed to cancel analysis:", err)
+    }
   }
 
   const handleHistorySelect = (item: SearchHistoryItem) => {
     setSearchInput(item.company)
-    setCompany(item.company)
+    startAnalysis(item.company)
     setShowHistory(false)
   }
 
@@ -135,23 +250,83 @@ export function SentimentDashboard() {
                 <p className="text-sm text-muted-foreground/80">Real-time sentiment analysis</p>
               </div>
             </div>
-            {lastUpdated && (
-              <div className="flex items-center gap-3">
-                <div className="flex items-center gap-2 rounded-full bg-muted/40 px-4 py-2 text-sm text-muted-foreground backdrop-blur-sm">
-                  <Clock className="h-4 w-4" />
-                  <span>{formatLastUpdated()}</span>
-                </div>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={handleRefresh}
-                  disabled={isLoading}
-                  className="rounded-full bg-white/60 backdrop-blur-sm hover:bg-white/80 dark:bg-white/10 dark:hover:bg-white/20 transition-smooth border-white/40"
-                >
-                  <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
-                </Button>
-              </div>
-            )}
+            <div className="flex items-center gap-3">
+              <Button
+                asChild
+                variant="outline"
+                size="sm"
+                className="rounded-full bg-white/60 backdrop-blur-sm hover:bg-white/80 dark:bg-white/10 dark:hover:bg-white/20 transition-smooth border-white/40"
+              >
+                <Link href="/watchlist">
+                  <Eye className="h-4 w-4" />
+                  Watchlist
+                </Link>
+              </Button>
+              <Button
+                asChild
+                variant="outline"
+                size="sm"
+                className="rounded-full bg-white/60 backdrop-blur-sm hover:bg-white/80 dark:bg-white/10 dark:hover:bg-white/20 transition-smooth border-white/40"
+              >
+                <Link href="/compare">
+                  <GitCompare className="h-4 w-4" />
+                  Compare
+                </Link>
+              </Button>
+              <Button
+                asChild
+                variant="outline"
+                size="sm"
+                className="rounded-full bg-white/60 backdrop-blur-sm hover:bg-white/80 dark:bg-white/10 dark:hover:bg-white/20 transition-smooth border-white/40"
+              >
+                <Link href="/upload">
+                  <Upload className="h-4 w-4" />
+                  Upload
+                </Link>
+              </Button>
+              <Button
+                asChild
+                variant="outline"
+                size="sm"
+                className="rounded-full bg-white/60 backdrop-blur-sm hover:bg-white/80 dark:bg-white/10 dark:hover:bg-white/20 transition-smooth border-white/40"
+              >
+                <Link href="/feeds">
+                  <Rss className="h-4 w-4" />
+                  Feeds
+                </Link>
+              </Button>
+              <Button
+                asChild
+                variant="outline"
+                size="sm"
+                className="rounded-full bg-white/60 backdrop-blur-sm hover:bg-white/80 dark:bg-white/10 dark:hover:bg-white/20 transition-smooth border-white/40"
+              >
+                <Link href="/profiles">
+                  <Building2 className="h-4 w-4" />
+                  Profiles
+                </Link>
+              </Button>
+              {lastUpdated && (
+                <>
+                  <div className="flex items-center gap-2 rounded-full bg-muted/40 px-4 py-2 text-sm text-muted-foreground backdrop-blur-sm">
+                    <Clock className="h-4 w-4" />
+                    <span>{formatLastUpdated()}</span>
+                  </div>
+                  {/* Uploaded feedback can't be re-fetched, so only searches can be refreshed */}
+                  {job?.kind !== "upload" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleRefresh}
+                      disabled={isLoading}
+                      className="rounded-full bg-white/60 backdrop-blur-sm hover:bg-white/80 dark:bg-white/10 dark:hover:bg-white/20 transition-smooth border-white/40"
+                    >
+                      <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+                    </Button>
+                  )}
+                </>
+              )}
+            </div>
           </div>
         </div>
       </header>
@@ -209,6 +384,14 @@ export function SentimentDashboard() {
               {isLoading ? "Analyzing..." : "Analyze"}
             </Button>
           </div>
+          <button
+            onClick={() => setShowAdvanced(!showAdvanced)}
+            className="mt-4 flex items-center gap-2 text-sm font-medium text-muted-foreground hover:text-foreground transition-smooth"
+          >
+            <SlidersHorizontal className="h-4 w-4" />
+            Advanced options
+          </button>
+          {showAdvanced && <AdvancedOptions value={parameters} onChange={setParameters} />}
           {showHistory && searchHistory.length > 0 && (
             <div className="fixed inset-0 z-0" onClick={() => setShowHistory(false)} />
           )}
@@ -216,7 +399,66 @@ export function SentimentDashboard() {
 
         {error && (
           <div className="mb-8 glass-card dark:glass-card-dark rounded-3xl border-destructive/30 bg-destructive/5 p-6">
-            <p className="text-destructive font-medium">Failed to load sentiment data. Please try again.</p>
+            <p className="text-destructive font-medium">
+              {startError ??
+                (job?.status === "rate_limited" ? job.error : null) ??
+                "Failed to load sentiment data. Please try again."}
+            </p>
+          </div>
+        )}
+
+        {viewSnapshotId && snapshot && (
+          <div className="mb-8 glass-card dark:glass-card-dark rounded-3xl p-6">
+            <p className="text-muted-foreground font-medium">
+              Viewing saved analysis for {snapshot.company} from {new Date(snapshot.createdAt).toLocaleString()}
+            </p>
+          </div>
+        )}
+
+        {!viewSnapshotId && data?.cache?.hit && (
+          <div className="mb-8 glass-card dark:glass-card-dark rounded-3xl p-6">
+            <p className="text-muted-foreground font-medium">
+              Served from cache, computed at {new Date(data.cache.computedAt).toLocaleString()}. Use refresh to run a new
+              analysis.
+            </p>
+          </div>
+        )}
+
+        {!viewSnapshotId && job?.kind === "upload" && job.status === "completed" && (
+          <div className="mb-8 glass-card dark:glass-card-dark rounded-3xl p-6">
+            <p className="text-muted-foreground font-medium">Showing analysis of uploaded feedback for {job.company}.</p>
+          </div>
+        )}
+
+        {data?.rateLimited && (
+          <div className="mb-8 glass-card dark:glass-card-dark rounded-3xl p-6">
+            <p className="text-muted-foreground font-medium">
+              Reddit rate limited this analysis part way through, so results are based on partial data.
+            </p>
+          </div>
+        )}
+
+        {data?.warnings && data.warnings.length > 0 && (
+          <div className="mb-8 glass-card dark:glass-card-dark rounded-3xl p-6">
+            <p className="text-muted-foreground font-medium">
+              Some model responses failed validation, so parts of this analysis used default values:
+            </p>
+            <ul className="mt-2 list-disc pl-5 text-sm text-muted-foreground">
+              {data.warnings.map((warning) => (
+                <li key={`${warning.stage}-${warning.task}`}>
+                  {warning.task}: {warning.count} invalid {warning.count === 1 ? "response" : "responses"}, {warning.fallback}
+                  {warning.issues.length > 0 && (
+                    <span className="text-muted-foreground/60"> ({warning.issues.join("; ")})</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {!viewSnapshotId && job?.status === "cancelled" && (
+          <div className="mb-8 glass-card dark:glass-card-dark rounded-3xl p-6">
+            <p className="text-muted-foreground font-medium">Analysis for {job.company} was cancelled.</p>
           </div>
         )}
 
@@ -230,9 +472,33 @@ export function SentimentDashboard() {
                     <TrendingUp className="h-6 w-6 text-primary" />
                   </div>
                   <div>
-                    <p className="text-xs font-medium text-muted-foreground/70 uppercase tracking-wider">Score</p>
-                    <p className="text-3xl font-bold text-foreground tracking-tight">{data.score.toFixed(1)}</p>
+                    <p className="text-xs font-medium text-muted-foreground/70 uppercase tracking-wider">
+                      {weighted ? `Score by ${data.weighting ?? "upvotes"}` : "Score"}
+                    </p>
+                    <p className="text-3xl font-bold text-foreground tracking-tight">
+                      {displayedScore.toFixed(1)}
+                    </p>
                   </div>
+                  {data.weightedScore !== undefined && (
+                    <div className="ml-auto flex flex-col gap-1">
+                      <Button
+                        variant={weighted ? "ghost" : "secondary"}
+                        size="sm"
+                        onClick={() => setShowWeighted(false)}
+                        className="h-6 rounded-full px-2 text-xs"
+                      >
+                        Average
+                      </Button>
+                      <Button
+                        variant={weighted ? "secondary" : "ghost"}
+                        size="sm"
+                        onClick={() => setShowWeighted(true)}
+                        className="h-6 rounded-full px-2 text-xs"
+                      >
+                        Weighted
+                      </Button>
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -244,6 +510,27 @@ export function SentimentDashboard() {
                   <div>
                     <p className="text-xs font-medium text-muted-foreground/70 uppercase tracking-wider">Total</p>
                     <p className="text-3xl font-bold text-foreground tracking-tight">{data.total}</p>
+                    {!!data.duplicatesCollapsed && (
+                      <p className="text-xs text-muted-foreground">{data.duplicatesCollapsed} duplicates merged</p>
+                    )}
+                    {!!data.filteredAuthors?.length && (
+                      <p
+                        className="text-xs text-muted-foreground"
+                        title={data.filteredAuthors.map((a) => `${a.author} (${a.reason}, ${a.count})`).join("\n")}
+                      >
+                        {data.filteredAuthors.reduce((sum, a) => sum + a.count, 0)} bot or low-quality items dropped
+                      </p>
+                    )}
+                    {data.upload && (
+                      <p className="text-xs text-muted-foreground" title="Rows without customer sentiment are skipped">
+                        {data.upload.analyzed} of {data.upload.rows} uploaded rows analyzed
+                      </p>
+                    )}
+                    {lexiconScored > 0 && (
+                      <p className="text-xs text-muted-foreground" title="Scored by the offline lexicon instead of the AI model">
+                        {lexiconScored} scored offline
+                      </p>
+                    )}
                   </div>
                 </div>
               </div>
@@ -284,7 +571,7 @@ export function SentimentDashboard() {
               {/* Sentiment Trend Chart */}
               <div className="glass-card dark:glass-card-dark rounded-3xl p-8 shadow-xl transition-smooth">
                 <h2 className="mb-6 text-lg font-semibold text-foreground tracking-tight">Sentiment Trend</h2>
-                <SentimentChart data={data.history} />
+                <SentimentChart data={data.history} granularity={data.historyGranularity} />
               </div>
             </div>
 
@@ -309,7 +596,23 @@ export function SentimentDashboard() {
 
             {/* Recent Mentions */}
             <div className="mt-6 glass-card dark:glass-card-dark rounded-3xl p-8 shadow-xl transition-smooth">
-              <h2 className="mb-6 text-lg font-semibold text-foreground tracking-tight">Recent Mentions</h2>
+              <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
+                <h2 className="text-lg font-semibold text-foreground tracking-tight">Recent Mentions</h2>
+                {(data.languages?.length ?? 0) > 1 && (
+                  <div className="flex flex-wrap gap-2">
+                    {data.languages!.map((entry) => (
+                      <Badge
+                        key={entry.language}
+                        variant="secondary"
+                        className="rounded-full"
+                        title={`Average score ${entry.averageScore.toFixed(1)}`}
+                      >
+                        {entry.language === "und" ? "Other" : entry.language.toUpperCase()} {entry.count}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
               <MentionsList mentions={data.mentions} />
             </div>
           </>
@@ -317,41 +620,7 @@ export function SentimentDashboard() {
 
         {isLoading && !data && (
           <div className="flex items-center justify-center py-20">
-            <div className="text-center glass-card dark:glass-card-dark rounded-3xl p-8 max-w-md">
-              <div className="mb-6 inline-block h-12 w-12 animate-spin rounded-full border-4 border-primary/30 border-t-primary" />
-              <h3 className="text-lg font-semibold text-foreground mb-3">Analyzing Sentiment</h3>
-              <div className="space-y-2 text-sm text-muted-foreground">
-                <p className="flex items-center gap-2 justify-center">
-                  <span className="inline-block h-2 w-2 rounded-full bg-primary animate-pulse" />
-                  Generating relevant topics
-                </p>
-                <p className="flex items-center gap-2 justify-center">
-                  <span className="inline-block h-2 w-2 rounded-full bg-primary animate-pulse" style={{ animationDelay: "0.2s" }} />
-                  Searching Reddit discussions
-                </p>
-                <p className="flex items-center gap-2 justify-center">
-                  <span className="inline-block h-2 w-2 rounded-full bg-primary animate-pulse" style={{ animationDelay: "0.4s" }} />
-                  Collecting comments
-                </p>
-                <p className="flex items-center gap-2 justify-center">
-                  <span className="inline-block h-2 w-2 rounded-full bg-primary animate-pulse" style={{ animationDelay: "0.6s" }} />
-                  Filtering for relevance
-                </p>
-                <p className="flex items-center gap-2 justify-center">
-                  <span className="inline-block h-2 w-2 rounded-full bg-primary animate-pulse" style={{ animationDelay: "0.8s" }} />
-                  Analyzing with AI
-                </p>
-                <p className="flex items-center gap-2 justify-center">
-                  <span className="inline-block h-2 w-2 rounded-full bg-primary animate-pulse" style={{ animationDelay: "1.0s" }} />
-                  Clustering topics
-                </p>
-                <p className="flex items-center gap-2 justify-center">
-                  <span className="inline-block h-2 w-2 rounded-full bg-primary animate-pulse" style={{ animationDelay: "1.2s" }} />
-                  Generating recommendations
-                </p>
-              </div>
-              <p className="mt-6 text-xs text-muted-foreground/60">This may take 30-60 seconds...</p>
-            </div>
+            <PipelineProgress progress={job?.progress ?? initialPipelineProgress} onCancel={job ? handleCancel : undefined} />
           </div>
         )}
       </div>
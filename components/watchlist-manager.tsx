@@ -0,0 +1,262 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import Link from "next/link"
+import useSWR from "swr"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Activity, ArrowLeft, ChevronDown, ChevronRight, Pause, Play, Plus, RefreshCw, Trash2 } from "lucide-react"
+import type { SnapshotSummary, WatchlistEntry, WatchlistSchedule } from "@/lib/types"
+
+type WatchlistItem = WatchlistEntry & { queued: boolean }
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json())
+
+const SCHEDULES: WatchlistSchedule[] = ["hourly", "daily", "weekly"]
+
+const selectClassName =
+  "h-12 rounded-2xl border border-white/30 bg-white/50 px-4 text-sm backdrop-blur-sm dark:bg-white/5 dark:border-white/10 transition-smooth focus:outline-none focus:ring-2 focus:ring-primary/20"
+
+export function WatchlistManager() {
+  const [companyInput, setCompanyInput] = useState("")
+  const [scheduleInput, setScheduleInput] = useState<WatchlistSchedule>("daily")
+  const [formError, setFormError] = useState<string | null>(null)
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  const { data, error, mutate } = useSWR<{ entries: WatchlistItem[] }>("/api/watchlist", fetcher, {
+    // Poll while runs are queued so the last-run column updates on its own
+    refreshInterval: (latest) => (latest?.entries?.some((e) => e.queued) ? 5000 : 60000),
+  })
+
+  const entries = data?.entries ?? []
+
+  const handleAdd = async () => {
+    if (!companyInput.trim()) return
+    setFormError(null)
+
+    const response = await fetch("/api/watchlist", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ company: companyInput.trim(), schedule: scheduleInput }),
+    })
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null)
+      setFormError(body?.error ?? "Failed to add company")
+      return
+    }
+
+    setCompanyInput("")
+    mutate()
+  }
+
+  const handleUpdate = async (id: string, changes: Partial<Pick<WatchlistEntry, "schedule" | "enabled">>) => {
+    await fetch(`/api/watchlist/${id}`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(changes),
+    })
+    mutate()
+  }
+
+  const handleRunNow = async (id: string) => {
+    await fetch(`/api/watchlist/${id}/run`, { method: "POST" })
+    mutate()
+  }
+
+  const handleRemove = async (id: string) => {
+    await fetch(`/api/watchlist/${id}`, { method: "DELETE" })
+    mutate()
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      handleAdd()
+    }
+  }
+
+  return (
+    <div className="min-h-screen gradient-mesh dark:gradient-mesh-dark">
+      <header className="glass-header dark:glass-header-dark sticky top-0 z-50 backdrop-blur-xl">
+        <div className="container mx-auto px-6 py-5">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <div className="flex h-11 w-11 items-center justify-center rounded-2xl bg-gradient-to-br from-primary to-accent shadow-lg transition-smooth glow-on-hover">
+                <Activity className="h-6 w-6 text-white" />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold tracking-tight text-foreground">Watchlist</h1>
+                <p className="text-sm text-muted-foreground/80">Recurring sentiment monitoring</p>
+              </div>
+            </div>
+            <Button asChild variant="outline" size="sm" className="rounded-full">
+              <Link href="/">
+                <ArrowLeft className="mr-1 h-4 w-4" />
+                Dashboard
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-6 py-8">
+        {/* Add Company */}
+        <div className="mb-8 glass-card dark:glass-card-dark rounded-3xl p-6 shadow-2xl">
+          <div className="flex gap-3">
+            <Input
+              type="text"
+              placeholder="Company to monitor..."
+              value={companyInput}
+              onChange={(e) => setCompanyInput(e.target.value)}
+              onKeyDown={handleKeyDown}
+              className="flex-1 h-12 rounded-2xl border-white/30 bg-white/50 backdrop-blur-sm dark:bg-white/5 dark:border-white/10"
+            />
+            <select
+              value={scheduleInput}
+              onChange={(e) => setScheduleInput(e.target.value as WatchlistSchedule)}
+              className={selectClassName}
+            >
+              {SCHEDULES.map((schedule) => (
+                <option key={schedule} value={schedule}>
+                  {schedule}
+                </option>
+              ))}
+            </select>
+            <Button
+              onClick={handleAdd}
+              className="h-12 rounded-2xl px-6 bg-gradient-to-br from-primary to-accent text-white font-medium shadow-lg"
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Add
+            </Button>
+          </div>
+          {formError && <p className="mt-3 text-sm text-destructive font-medium">{formError}</p>}
+        </div>
+
+        {error && (
+          <div className="mb-8 glass-card dark:glass-card-dark rounded-3xl border-destructive/30 bg-destructive/5 p-6">
+            <p className="text-destructive font-medium">Failed to load the watchlist. Please try again.</p>
+          </div>
+        )}
+
+        {/* Entries */}
+        <div className="glass-card dark:glass-card-dark rounded-3xl p-8 shadow-xl">
+          {entries.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No companies on the watchlist yet</p>
+          ) : (
+            <div className="space-y-3">
+              {entries.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="rounded-2xl border border-white/20 dark:border-white/10 bg-white/40 dark:bg-white/5 p-5"
+                >
+                  <div className="flex items-center gap-4">
+                    <button
+                      onClick={() => setExpanded(expanded === entry.id ? null : entry.id)}
+                      className="flex items-center gap-2 font-medium text-foreground"
+                    >
+                      {expanded === entry.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      {entry.company}
+                    </button>
+                    {!entry.enabled && <Badge variant="secondary">paused</Badge>}
+                    {entry.queued && <Badge>running</Badge>}
+                    {entry.lastStatus === "failed" && (
+                      <Badge variant="destructive" title={entry.lastError}>
+                        last run failed
+                      </Badge>
+                    )}
+
+                    <div className="ml-auto flex items-center gap-3 text-xs text-muted-foreground">
+                      {entry.lastScore !== undefined && (
+                        <span className="font-medium text-foreground">
+                          {entry.lastScore > 0 ? "+" : ""}
+                          {entry.lastScore.toFixed(1)}
+                        </span>
+                      )}
+                      <span>
+                        Last run: {entry.lastRunAt ? new Date(entry.lastRunAt).toLocaleString() : "never"}
+                      </span>
+                      {entry.enabled && <span>Next: {new Date(entry.nextRunAt).toLocaleString()}</span>}
+                      <select
+                        value={entry.schedule}
+                        onChange={(e) => handleUpdate(entry.id, { schedule: e.target.value as WatchlistSchedule })}
+                        className="h-8 rounded-xl border border-border bg-transparent px-2 text-xs"
+                      >
+                        {SCHEDULES.map((schedule) => (
+                          <option key={schedule} value={schedule}>
+                            {schedule}
+                          </option>
+                        ))}
+                      </select>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRunNow(entry.id)}
+                        disabled={entry.queued}
+                        title="Run now"
+                      >
+                        <RefreshCw className={`h-4 w-4 ${entry.queued ? "animate-spin" : ""}`} />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleUpdate(entry.id, { enabled: !entry.enabled })}
+                        title={entry.enabled ? "Pause" : "Resume"}
+                      >
+                        {entry.enabled ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleRemove(entry.id)} title="Remove">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  {expanded === entry.id && <WatchlistRuns company={entry.company} />}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function WatchlistRuns({ company }: { company: string }) {
+  const { data } = useSWR<{ snapshots: SnapshotSummary[] }>(
+    `/api/snapshots?company=${encodeURIComponent(company)}`,
+    fetcher,
+  )
+
+  if (!data) {
+    return <p className="mt-4 text-sm text-muted-foreground">Loading runs...</p>
+  }
+
+  if (data.snapshots.length === 0) {
+    return <p className="mt-4 text-sm text-muted-foreground">No completed runs yet</p>
+  }
+
+  return (
+    <div className="mt-4 divide-y divide-border/50 text-sm">
+      {data.snapshots.map((snapshot) => (
+        <div key={snapshot.id} className="flex items-center gap-4 py-2">
+          <span className="text-muted-foreground">{new Date(snapshot.createdAt).toLocaleString()}</span>
+          <span className="font-medium">{snapshot.score.toFixed(1)}</span>
+          <span className="text-xs text-muted-foreground">
+            {snapshot.total} mentions · {snapshot.positive} positive · {snapshot.negative} negative
+          </span>
+          <Link href={`/?snapshot=${snapshot.id}`} className="ml-auto text-primary hover:text-primary/80 font-medium">
+            View
+          </Link>
+        </div>
+      ))}
+    </div>
+  )
+}
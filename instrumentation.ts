@@ -0,0 +1,7 @@
+export async function register() {
+  // The scheduler needs a long-running Node.js server; it is skipped on the edge runtime
+  if (process.env.NEXT_RUNTIME === "nodejs" && process.env.WATCHLIST_SCHEDULER !== "disabled") {
+    const { watchlistScheduler } = await import("./lib/watchlist-scheduler")
+    watchlistScheduler.start()
+  }
+}
@@ -0,0 +1,142 @@
+// Analysis Job Manager
+// Runs analyses in the background so they survive page reloads and proxy timeouts
+
+import { AnalysisPipeline } from "./analysis-pipeline"
+import { RedditRateLimitError } from "./reddit-request-scheduler"
+import { applyPipelineEvent, initialPipelineProgress, type PipelineProgressState } from "./pipeline-progress"
+import type { AnalysisParameters, SentimentData, SourceMention } from "./types"
+
+export type AnalysisJobStatus = "queued" | "running" | "completed" | "failed" | "rate_limited" | "cancelled"
+
+export interface AnalysisJob {
+  id: string
+  company: string
+  // "upload" jobs analyze a supplied feedback file instead of searching
+  kind: "search" | "upload"
+  parameters: AnalysisParameters
+  status: AnalysisJobStatus
+  progress: PipelineProgressState
+  createdAt: string
+  updatedAt: string
+  result?: SentimentData
+  error?: string
+}
+
+interface JobEntry {
+  job: AnalysisJob
+  controller: AbortController
+  force: boolean
+  // Supplied mentions (an upload) are analyzed directly instead of searching
+  mentions?: SourceMention[]
+}
+
+export class AnalysisJobManager {
+  // Finished jobs are kept around long enough for a reloaded tab to pick up the result
+  private static RETENTION_MS = 60 * 60 * 1000
+
+  private jobs = new Map<string, JobEntry>()
+
+  /**
+   * Creates a job and starts running the pipeline in the background
+   */
+  create(
+    company: string,
+    parameters: AnalysisParameters,
+    options: { force?: boolean; mentions?: SourceMention[] } = {},
+  ): AnalysisJob {
+    this.prune()
+
+    const now = new Date().toISOString()
+    const job: AnalysisJob = {
+      id: crypto.randomUUID(),
+      company,
+      kind: options.mentions ? "upload" : "search",
+      parameters,
+      status: "queued",
+      progress: initialPipelineProgress,
+      createdAt: now,
+      updatedAt: now,
+    }
+    const entry: JobEntry = {
+      job,
+      controller: new AbortController(),
+      force: options.force ?? false,
+      mentions: options.mentions,
+    }
+    this.jobs.set(job.id, entry)
+
+    // Intentionally not awaited: the caller only receives the job id
+    void this.execute(entry)
+
+    return job
+  }
+
+  get(id: string): AnalysisJob | null {
+    return this.jobs.get(id)?.job ?? null
+  }
+
+  /**
+   * Cancels a queued or running job and aborts its in-flight requests
+   */
+  cancel(id: string): AnalysisJob | null {
+    const entry = this.jobs.get(id)
+    if (!entry) return null
+
+    if (entry.job.status === "queued" || entry.job.status === "running") {
+      entry.controller.abort()
+      this.update(entry, { status: "cancelled" })
+    }
+
+    return entry.job
+  }
+
+  private async execute(entry: JobEntry): Promise<void> {
+    const { job, controller, force, mentions } = entry
+
+    this.update(entry, { status: "running" })
+
+    try {
+      const pipeline = new AnalysisPipeline({
+        signal: controller.signal,
+        parameters: job.parameters,
+        force,
+        onEvent: (event) => this.update(entry, { progress: applyPipelineEvent(entry.job.progress, event) }),
+      })
+      const result = mentions ? await pipeline.runOnMentions(job.company, mentions) : await pipeline.run(job.company)
+      this.update(entry, { status: "completed", result })
+    } catch (error) {
+      if (controller.signal.aborted) {
+        console.log(`[v0] Analysis job ${job.id} cancelled`)
+        return
+      }
+      if (error instanceof RedditRateLimitError) {
+        console.log(`[v0] Analysis job ${job.id} rate limited`)
+        this.update(entry, { status: "rate_limited", error: error.message })
+        return
+      }
+      console.error(`[v0] Analysis job ${job.id} failed:`, error)
+      this.update(entry, { status: "failed", error: "Failed to fetch sentiment data. Please try again." })
+    }
+  }
+
+  private update(entry: JobEntry, changes: Partial<AnalysisJob>): void {
+    // A cancelled job keeps its final state even if the pipeline reports late events
+    if (entry.job.status === "cancelled") return
+    entry.job = { ...entry.job, ...changes, updatedAt: new Date().toISOString() }
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - AnalysisJobManager.RETENTION_MS
+    for (const [id, entry] of this.jobs) {
+      const finished = entry.job.status !== "queued" && entry.job.status !== "running"
+      if (finished && new Date(entry.job.updatedAt).getTime() < cutoff) {
+        this.jobs.delete(id)
+      }
+    }
+  }
+}
+
+// Keep a single manager per server process, surviving module reloads in development
+const globalForJobs = globalThis as unknown as { analysisJobs?: AnalysisJobManager }
+
+export const analysisJobs = globalForJobs.analysisJobs ?? (globalForJobs.analysisJobs = new AnalysisJobManager())
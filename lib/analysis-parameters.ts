@@ -0,0 +1,157 @@
+// Analysis Parameters
+// Validates the tunable pipeline settings accepted by the analysis endpoints
+
+import { z } from "zod"
+import type { AnalysisParameters } from "./types"
+
+export const TIMEFRAMES = ["hour", "day", "week", "month", "year", "all"] as const
+
+// Window length for sources that filter by date themselves; "all" has no limit
+export const TIMEFRAME_SECONDS: Record<string, number> = {
+  hour: 60 * 60,
+  day: 24 * 60 * 60,
+  week: 7 * 24 * 60 * 60,
+  month: 30 * 24 * 60 * 60,
+  year: 365 * 24 * 60 * 60,
+}
+
+export const MENTION_SOURCES = ["reddit", "hackernews", "feeds"] as const
+
+export const SENTIMENT_WEIGHTINGS = ["upvotes", "replies", "recency"] as const
+
+export const SENTIMENT_METHODS = ["llm", "lexicon"] as const
+
+export const DEFAULT_ANALYSIS_PARAMETERS: AnalysisParameters = {
+  topicCount: 8,
+  postBudget: 50,
+  timeframe: "week",
+  weighting: "upvotes",
+  sentimentMethod: "llm",
+  commentPostBudget: 15,
+  commentBudget: 300,
+  maxMentions: 40,
+  minScore: 0,
+  includeSubreddits: [],
+  excludeSubreddits: [],
+  excludeAuthors: [],
+  // Feeds contribute nothing until some are registered for the company, so they're on by default
+  sources: ["reddit", "feeds"],
+  relevanceBatchSize: 20,
+}
+
+// Upper bounds keep a single analysis from exhausting Reddit rate limits or the LLM budget
+export const PARAMETER_LIMITS = {
+  topicCount: { min: 1, max: 15 },
+  postBudget: { min: 5, max: 200 },
+  commentPostBudget: { min: 0, max: 50 },
+  commentBudget: { min: 10, max: 2000 },
+  maxMentions: { min: 5, max: 100 },
+  minScore: { min: -100, max: 100000 },
+  subreddits: { max: 25 },
+  authors: { max: 50 },
+}
+
+const integer = (limits: { min: number; max: number }, fallback: number) =>
+  z.coerce.number().int().min(limits.min).max(limits.max).default(fallback)
+
+// Accepts a comma-separated string (query strings) or an array (JSON bodies)
+const subredditList = z
+  .preprocess(
+    (value) => {
+      const list = typeof value === "string" ? value.split(",") : value
+      return Array.isArray(list) ? list.filter((name) => typeof name !== "string" || name.trim() !== "") : list
+    },
+    z
+      .array(
+        z
+          .string()
+          .trim()
+          .transform((name) => name.replace(/^\/?r\//i, ""))
+          .pipe(z.string().regex(/^[A-Za-z0-9_]{2,21}$/, "Invalid subreddit name")),
+      )
+      .max(PARAMETER_LIMITS.subreddits.max),
+  )
+  .default([])
+
+// Same comma-or-array input as subreddits; names are free-form since each source has its own rules
+const authorList = z
+  .preprocess(
+    (value) => {
+      const list = typeof value === "string" ? value.split(",") : value
+      return Array.isArray(list) ? list.filter((name) => typeof name !== "string" || name.trim() !== "") : list
+    },
+    z
+      .array(
+        z
+          .string()
+          .trim()
+          .transform((name) => name.replace(/^\/?u\//i, ""))
+          .pipe(z.string().min(1).max(100)),
+      )
+      .max(PARAMETER_LIMITS.authors.max),
+  )
+  .default([])
+
+// Same comma-or-array input as subreddits; repeats are dropped
+const sourceList = z
+  .preprocess(
+    (value) => (typeof value === "string" ? value.split(",").map((id) => id.trim()) : value),
+    z
+      .array(z.enum(MENTION_SOURCES))
+      .min(1, "Select at least one source")
+      .transform((ids) => Array.from(new Set(ids))),
+  )
+  .default(DEFAULT_ANALYSIS_PARAMETERS.sources)
+
+export const analysisParametersSchema = z.object({
+  topicCount: integer(PARAMETER_LIMITS.topicCount, DEFAULT_ANALYSIS_PARAMETERS.topicCount),
+  postBudget: integer(PARAMETER_LIMITS.postBudget, DEFAULT_ANALYSIS_PARAMETERS.postBudget),
+  timeframe: z.enum(TIMEFRAMES).default(DEFAULT_ANALYSIS_PARAMETERS.timeframe),
+  weighting: z.enum(SENTIMENT_WEIGHTINGS).default(DEFAULT_ANALYSIS_PARAMETERS.weighting),
+  sentimentMethod: z.enum(SENTIMENT_METHODS).default(DEFAULT_ANALYSIS_PARAMETERS.sentimentMethod),
+  commentPostBudget: integer(PARAMETER_LIMITS.commentPostBudget, DEFAULT_ANALYSIS_PARAMETERS.commentPostBudget),
+  commentBudget: integer(PARAMETER_LIMITS.commentBudget, DEFAULT_ANALYSIS_PARAMETERS.commentBudget),
+  maxMentions: integer(PARAMETER_LIMITS.maxMentions, DEFAULT_ANALYSIS_PARAMETERS.maxMentions),
+  minScore: integer(PARAMETER_LIMITS.minScore, DEFAULT_ANALYSIS_PARAMETERS.minScore),
+  includeSubreddits: subredditList,
+  excludeSubreddits: subredditList,
+  excludeAuthors: authorList,
+  sources: sourceList,
+})
+
+export type ParameterParseResult =
+  | { success: true; parameters: AnalysisParameters }
+  | { success: false; error: string; details: Record<string, string[]> }
+
+/**
+ * Validates user-supplied parameters, filling in defaults for anything omitted
+ */
+export function parseAnalysisParameters(input: Record<string, unknown> = {}): ParameterParseResult {
+  // Empty strings come from blank form fields and query params; treat them as omitted
+  const cleaned = Object.fromEntries(Object.entries(input).filter(([, value]) => value !== "" && value !== null))
+  const result = analysisParametersSchema.safeParse(cleaned)
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: "Invalid analysis parameters",
+      details: result.error.flatten().fieldErrors as Record<string, string[]>,
+    }
+  }
+
+  return {
+    success: true,
+    parameters: {
+      ...result.data,
+      relevanceBatchSize: DEFAULT_ANALYSIS_PARAMETERS.relevanceBatchSize,
+    },
+  }
+}
+
+/**
+ * Collects the parameter fields from a URL query string
+ */
+export function parametersFromSearchParams(searchParams: URLSearchParams): Record<string, unknown> {
+  const keys = Object.keys(analysisParametersSchema.shape)
+  return Object.fromEntries(keys.filter((key) => searchParams.has(key)).map((key) => [key, searchParams.get(key)]))
+}
@@ -0,0 +1,542 @@
+// Analysis Pipeline
+// Runs the multi-stage sentiment analysis and reports progress for each stage
+
+import { SentimentAnalyzer } from "./sentiment-analyzer"
+import { SentimentHistory } from "./sentiment-history"
+import { TopicGenerator } from "./topic-generator"
+import { RelevanceFilter } from "./relevance-filter"
+import { DuplicateDetector } from "./duplicate-detector"
+import { AuthorFilter } from "./author-filter"
+import { LanguageDetector } from "./language-detector"
+import { TopicAnalyzer } from "./topic-analyzer"
+import { RecommendationEngine } from "./recommendation-engine"
+import { snapshotRepository } from "./snapshot-repository"
+import { companyProfileRepository } from "./company-profile-repository"
+import { resultCache } from "./result-cache"
+import { RedditRateLimitError } from "./reddit-request-scheduler"
+import { DEFAULT_ANALYSIS_PARAMETERS } from "./analysis-parameters"
+import type { MentionSource } from "./mention-source"
+import { createMentionSources } from "./mention-sources"
+import type { StructuredOutputError } from "./structured-output"
+import type {
+  AnalysisParameters,
+  CompanyProfile,
+  FilteredAuthor,
+  MentionData,
+  PipelineCounts,
+  PipelineEvent,
+  PipelineStage,
+  PipelineWarning,
+  SentimentData,
+  SourceMention,
+} from "./types"
+
+export type PipelineEventHandler = (event: PipelineEvent) => void
+
+export interface PipelineOptions {
+  onEvent?: PipelineEventHandler
+  signal?: AbortSignal
+  parameters?: AnalysisParameters
+  // Skip the result cache and always run every stage
+  force?: boolean
+  // Overrides the adapters built from parameters.sources; results from every source are combined
+  sources?: MentionSource[]
+}
+
+export class AnalysisCancelledError extends Error {
+  constructor() {
+    super("Analysis was cancelled")
+    this.name = "AnalysisCancelledError"
+  }
+}
+
+export class AnalysisPipeline {
+  // Sentiment requests sent at once
+  private static SENTIMENT_CONCURRENCY = 10
+
+  private topicGenerator = new TopicGenerator(undefined, (error, fallback) => this.warn("topics", error, fallback))
+  private duplicateDetector = new DuplicateDetector()
+  private relevanceFilter = new RelevanceFilter(undefined, (error, fallback) => this.warn("relevance", error, fallback))
+  private sentimentAnalyzer: SentimentAnalyzer
+  private topicAnalyzer = new TopicAnalyzer(undefined, undefined, (error, fallback) =>
+    this.warn("clustering", error, fallback),
+  )
+  private recommendationEngine = new RecommendationEngine(undefined, (error, fallback) =>
+    this.warn("recommendations", error, fallback),
+  )
+  private counts: PipelineCounts = {}
+  private onEvent: PipelineEventHandler
+  private signal?: AbortSignal
+  private parameters: AnalysisParameters
+  private force: boolean
+  private sources: MentionSource[]
+  private rateLimited = false
+  // Keyed by stage and task so repeated failures are counted rather than listed
+  private warnings = new Map<string, PipelineWarning>()
+  private profile: CompanyProfile | null = null
+
+  constructor(options: PipelineOptions = {}) {
+    this.onEvent = options.onEvent ?? (() => {})
+    this.signal = options.signal
+    this.parameters = options.parameters ?? DEFAULT_ANALYSIS_PARAMETERS
+    this.sentimentAnalyzer = new SentimentAnalyzer(undefined, this.parameters.sentimentMethod)
+    this.force = options.force ?? false
+    this.sources = options.sources ?? createMentionSources(this.parameters.sources)
+  }
+
+  /**
+   * Runs every stage for a company and returns the complete sentiment data
+   */
+  async run(company: string): Promise<SentimentData> {
+    if (!this.force) {
+      const cached = resultCache.get(company, this.parameters)
+      if (cached) {
+        console.log(`[v0] Serving cached analysis for ${company} computed at ${cached.cache?.computedAt}`)
+        return cached
+      }
+    }
+
+    console.log(`[v0] ========== Starting Multi-Stage Analysis for: ${company} ==========`)
+    await this.loadProfile(company)
+
+    // STAGE 1: Generate relevant topics
+    this.startStage("topics")
+    console.log("[v0] Stage 1: Generating topics...")
+    const topics = await this.topicGenerator.generateTopics(company, this.parameters.topicCount, this.profile)
+
+    if (topics.length === 0) {
+      console.log("[v0] No topics generated, falling back to company name")
+      topics.push(company)
+    }
+    this.completeStage("topics", { topicsGenerated: topics.length }, { topics })
+
+    // STAGE 2: Search every source for posts across all topics
+    this.startStage("search")
+    console.log(`[v0] Stage 2: Searching ${this.sources.map((s) => s.label).join(", ")} for ${topics.length} topics...`)
+    const uniquePosts = await this.searchPosts(topics, company)
+    console.log(`[v0] Total unique posts found: ${uniquePosts.length}`)
+    this.completeStage("search", { postsFound: uniquePosts.length })
+
+    if (uniquePosts.length === 0) {
+      console.log("[v0] No posts found")
+      const { history, granularity } = await this.buildHistory(company, [])
+      return this.persist(company, {
+        score: 0,
+        total: 0,
+        positive: 0,
+        neutral: 0,
+        negative: 0,
+        mentions: [],
+        history,
+        historyGranularity: granularity,
+      })
+    }
+
+    // STAGE 3: Fetch comments from top posts
+    this.startStage("comments")
+    console.log("[v0] Stage 3: Fetching comments from posts...")
+    const threads = uniquePosts.filter((post) => post.conversationRef)
+    const allComments = await this.fetchComments(threads.slice(0, this.parameters.commentPostBudget))
+    console.log(`[v0] Total comments collected: ${allComments.length}`)
+    this.completeStage("comments", { commentsCollected: allComments.length })
+
+    // Items without a conversation (feed entries, comment search hits) compete with comments directly
+    const standalone = uniquePosts.filter((post) => !post.conversationRef)
+
+    return this.persist(company, await this.analyze(company, [...allComments, ...standalone], uniquePosts))
+  }
+
+  /**
+   * Runs the analysis stages on mentions supplied by the caller, e.g. an uploaded feedback export
+   * Nothing is searched, cached or saved as a snapshot, so uploads never mix with search history
+   */
+  async runOnMentions(company: string, items: SourceMention[]): Promise<SentimentData> {
+    console.log(`[v0] ========== Analyzing ${items.length} uploaded items for: ${company} ==========`)
+    await this.loadProfile(company)
+
+    // The collection stages have nothing to do; mark them done so progress reads correctly
+    this.completeStage("topics", { topicsGenerated: 0 })
+    this.completeStage("search", { postsFound: items.length })
+    this.completeStage("comments", { commentsCollected: 0 })
+
+    // Every row of an upload is analyzed; maxMentions only budgets what searches collect
+    const data = await this.analyze(company, items, items, {
+      fallbackLimit: items.length,
+      maxMentions: items.length,
+      includeEarlierRuns: false,
+      requireCompanyMention: false,
+    })
+    return { ...data, parameters: this.parameters, upload: { rows: items.length, analyzed: data.total } }
+  }
+
+  /**
+   * Filters, scores, clusters and builds recommendations for the collected items (stages 4-7)
+   * Falls back to the fallback items when too few candidates pass the relevance filter
+   */
+  private async analyze(
+    company: string,
+    candidates: SourceMention[],
+    fallback: SourceMention[],
+    {
+      fallbackLimit = 20,
+      maxMentions = this.parameters.maxMentions,
+      includeEarlierRuns = true,
+      requireCompanyMention = true,
+    } = {},
+  ): Promise<SentimentData> {
+    // STAGE 4: Filter for relevance
+    this.startStage("relevance")
+
+    // Bots, deleted content and flooding authors go first, before they cost any LLM calls
+    const authorFilter = new AuthorFilter(this.parameters.excludeAuthors)
+    const qualityCandidates = authorFilter.filter(candidates)
+    const qualityFallback = authorFilter.filter(fallback)
+
+    // Crossposts and copy-pasted complaints would otherwise be scored and counted once per copy
+    const distinctCandidates = this.duplicateDetector.collapse(qualityCandidates.items)
+    const distinctFallback = this.duplicateDetector.collapse(qualityFallback.items)
+    console.log(`[v0] Collapsed ${distinctCandidates.collapsed} duplicate comments and ${distinctFallback.collapsed} duplicate posts`)
+
+    console.log("[v0] Stage 4: Filtering comments for relevance...")
+    // Detected once here; the relevance pre-filter picks its keyword list by language
+    const withLanguage = (items: SourceMention[]) =>
+      items.map((item) => ({ ...item, language: item.language ?? LanguageDetector.detect(item.text) }))
+    const relevantComments = await this.relevanceFilter.filterRelevant(
+      withLanguage(distinctCandidates.items),
+      company,
+      this.parameters.relevanceBatchSize,
+      this.profile,
+      requireCompanyMention,
+    )
+
+    // If we don't have enough relevant comments, fall back to analyzing posts
+    let itemsToAnalyze: SourceMention[] = []
+    let duplicatesCollapsed: number
+    let filteredAuthors: FilteredAuthor[]
+
+    if (relevantComments.length < 5) {
+      console.log("[v0] Not enough relevant comments, using posts instead")
+      itemsToAnalyze = withLanguage(distinctFallback.items.slice(0, Math.min(fallbackLimit, maxMentions)))
+      duplicatesCollapsed = distinctFallback.collapsed
+      filteredAuthors = qualityFallback.filtered
+    } else {
+      itemsToAnalyze = relevantComments.slice(0, maxMentions)
+      duplicatesCollapsed = distinctCandidates.collapsed
+      filteredAuthors = qualityCandidates.filtered
+    }
+    const lowQualityRemoved = filteredAuthors.reduce((sum, a) => sum + a.count, 0)
+    this.completeStage("relevance", { itemsKept: itemsToAnalyze.length, duplicatesCollapsed, lowQualityRemoved })
+
+    // STAGE 5: Analyze sentiment
+    this.startStage("sentiment")
+    console.log(`[v0] Stage 5: Analyzing sentiment for ${itemsToAnalyze.length} items...`)
+    const mentions = await this.analyzeSentiment(itemsToAnalyze, company)
+
+    // Calculate aggregate sentiment
+    const sentimentResults = mentions.map((m) => ({ label: m.sentiment, score: m.score }))
+    const aggregate = SentimentAnalyzer.calculateAggregate(sentimentResults)
+    const weightedScore = SentimentAnalyzer.calculateWeightedScore(mentions, this.parameters.weighting)
+
+    // Build the trend from this run's mentions plus, for searches, earlier runs of the same company
+    const { history, granularity } = includeEarlierRuns
+      ? await this.buildHistory(company, mentions)
+      : SentimentHistory.build([SentimentHistory.aggregate(mentions)])
+
+    const partial: SentimentData = {
+      score: aggregate.averageScore,
+      weightedScore,
+      weighting: this.parameters.weighting,
+      total: mentions.length,
+      duplicatesCollapsed,
+      filteredAuthors,
+      languages: LanguageDetector.breakdown(mentions),
+      positive: aggregate.positive,
+      neutral: aggregate.neutral,
+      negative: aggregate.negative,
+      mentions,
+      history,
+      historyGranularity: granularity,
+    }
+    this.completeStage("sentiment", { mentionsAnalyzed: mentions.length }, { partial })
+
+    // STAGE 6: Topic Clustering and Analysis
+    this.startStage("clustering")
+    console.log("[v0] Stage 6: Clustering mentions by topic...")
+    const topicClusters = await this.topicAnalyzer.clusterByTopics(mentions, company, this.parameters.weighting)
+    console.log(`[v0] Identified ${topicClusters.length} topic clusters`)
+    this.completeStage("clustering", { clustersFound: topicClusters.length }, { partial: { topicClusters } })
+
+    // STAGE 7: Generate Recommendations
+    this.startStage("recommendations")
+    console.log("[v0] Stage 7: Generating actionable recommendations...")
+    const recommendations = await this.recommendationEngine.generateRecommendations(topicClusters, company)
+    console.log(`[v0] Generated ${recommendations.length} recommendations`)
+    this.completeStage("recommendations", { recommendationsGenerated: recommendations.length })
+
+    console.log(`[v0] ========== Analysis Complete: Score ${aggregate.averageScore.toFixed(1)} ==========`)
+
+    return {
+      ...partial,
+      topicClusters,
+      recommendations,
+    }
+  }
+
+  /**
+   * Loads the company's profile; without one, matching falls back to the plain company name
+   */
+  private async loadProfile(company: string): Promise<void> {
+    try {
+      this.profile = await companyProfileRepository.findByCompany(company)
+      if (this.profile) {
+        console.log(`[v0] Using company profile for ${this.profile.company}`)
+      }
+    } catch (error) {
+      console.error("[v0] Failed to load company profile:", error)
+      this.profile = null
+    }
+  }
+
+  /**
+   * Combines the current run with the stored per-run aggregates for the company
+   */
+  private async buildHistory(company: string, mentions: MentionData[]) {
+    const runs = [SentimentHistory.aggregate(mentions)]
+
+    try {
+      const earlierRuns = await snapshotRepository.list(company)
+      runs.push(...earlierRuns.map((snapshot) => snapshot.buckets ?? []))
+    } catch (error) {
+      console.error("[v0] Failed to load earlier runs for history:", error)
+    }
+
+    return SentimentHistory.build(runs)
+  }
+
+  /**
+   * Saves the finished analysis as a snapshot and caches it
+   * A storage failure is logged but never fails the analysis itself
+   */
+  private async persist(company: string, data: SentimentData): Promise<SentimentData> {
+    let result: SentimentData = { ...data, parameters: this.parameters }
+    if (this.rateLimited) {
+      result.rateLimited = true
+    }
+    if (this.warnings.size > 0) {
+      result.warnings = Array.from(this.warnings.values())
+    }
+
+    try {
+      const snapshot = await snapshotRepository.save(company, this.parameters, result)
+      console.log(`[v0] Saved analysis snapshot ${snapshot.id}`)
+      result = { ...result, snapshotId: snapshot.id }
+    } catch (error) {
+      console.error("[v0] Failed to save analysis snapshot:", error)
+    }
+
+    return resultCache.set(company, this.parameters, result)
+  }
+
+  /**
+   * Searches every source for every topic and removes duplicate posts
+   */
+  private async searchPosts(topics: string[], company: string): Promise<SourceMention[]> {
+    const allPosts: SourceMention[] = []
+    const topicSourceCount = this.sources.filter((source) => !source.searchOnce).length
+    const postsPerTopic = Math.ceil(this.parameters.postBudget / topics.length / Math.max(1, topicSourceCount))
+    let rateLimitError: RedditRateLimitError | null = null
+
+    for (const source of this.sources) {
+      const queries = source.searchOnce ? [company] : topics
+
+      for (const topic of queries) {
+        let posts: SourceMention[]
+        try {
+          posts = await source.search(topic, {
+            limit: source.searchOnce ? this.parameters.postBudget : postsPerTopic,
+            timeframe: this.parameters.timeframe,
+            company,
+            profile: this.profile,
+            signal: this.signal,
+            onWait: (waitMs, reason) => this.reportWait("search", waitMs, reason),
+          })
+        } catch (error) {
+          if (!(error instanceof RedditRateLimitError)) throw error
+          console.log(`[v0] ${source.label} rate limited, skipping its remaining topics`)
+          rateLimitError = error
+          break
+        }
+        console.log(`[v0] Found ${posts.length} ${source.label} posts for topic: "${topic}"`)
+        allPosts.push(...posts)
+
+        this.reportProgress("search", { postsFound: allPosts.length }, `Searched ${source.label} for "${topic}"`)
+      }
+    }
+
+    if (rateLimitError) {
+      // Without any posts there is nothing to analyze, so let the caller report the rate limit
+      if (allPosts.length === 0) throw rateLimitError
+      console.log(`[v0] Rate limited after ${allPosts.length} posts, continuing with partial results`)
+      this.rateLimited = true
+    }
+
+    // Remove duplicates based on source and post ID
+    const uniquePosts = Array.from(new Map(allPosts.map((post) => [`${post.source}:${post.id}`, post])).values())
+    return this.applyPostFilters(uniquePosts)
+  }
+
+  /**
+   * Applies the score and subreddit constraints from the analysis parameters
+   */
+  private applyPostFilters(posts: SourceMention[]): SourceMention[] {
+    const { minScore, includeSubreddits, excludeSubreddits } = this.parameters
+    const included = new Set(includeSubreddits.map((s) => s.toLowerCase()))
+    const excluded = new Set(excludeSubreddits.map((s) => s.toLowerCase()))
+
+    const filtered = posts.filter((post) => {
+      if (post.engagement < minScore) return false
+      // Subreddit lists only constrain Reddit posts
+      if (post.source !== "reddit") return true
+
+      const subreddit = post.channel.toLowerCase()
+      return (included.size === 0 || included.has(subreddit)) && !excluded.has(subreddit)
+    })
+
+    if (filtered.length !== posts.length) {
+      console.log(`[v0] Parameter filters: ${posts.length} posts -> ${filtered.length} posts`)
+    }
+    return filtered
+  }
+
+  /**
+   * Loads the conversation under each post from the source it came from, until the comment budget is spent
+   */
+  private async fetchComments(posts: SourceMention[]): Promise<SourceMention[]> {
+    const allComments: SourceMention[] = []
+    const rateLimitedSources = new Set<string>()
+
+    for (let i = 0; i < posts.length; i++) {
+      const remaining = this.parameters.commentBudget - allComments.length
+      if (remaining <= 0) {
+        console.log(`[v0] Comment budget of ${this.parameters.commentBudget} reached after ${i} posts`)
+        break
+      }
+
+      const post = posts[i]
+      const source = this.sources.find((s) => s.id === post.source)
+      if (!source || rateLimitedSources.has(source.id)) continue
+
+      let comments: SourceMention[]
+      try {
+        comments = await source.fetchConversation(post, {
+          limit: remaining,
+          signal: this.signal,
+          onWait: (waitMs, reason) => this.reportWait("comments", waitMs, reason),
+        })
+      } catch (error) {
+        if (!(error instanceof RedditRateLimitError)) throw error
+        console.log(`[v0] ${source.label} rate limited after ${i} posts, skipping its remaining comments`)
+        rateLimitedSources.add(source.id)
+        this.rateLimited = true
+        continue
+      }
+      console.log(`[v0] Fetched ${comments.length} comments from post: "${(post.title ?? post.text).slice(0, 50)}..."`)
+      allComments.push(...comments)
+
+      this.reportProgress("comments", { commentsCollected: allComments.length }, `Fetched ${i + 1}/${posts.length} posts`)
+    }
+
+    return allComments
+  }
+
+  /**
+   * Scores each item and converts it to mention data
+   */
+  private async analyzeSentiment(items: SourceMention[], company: string): Promise<MentionData[]> {
+    const mentions: MentionData[] = []
+
+    // Uploads can hold thousands of rows, so only a batch of requests is in flight at a time
+    for (let i = 0; i < items.length; i += AnalysisPipeline.SENTIMENT_CONCURRENCY) {
+      this.checkCancelled()
+      const batch = items.slice(i, i + AnalysisPipeline.SENTIMENT_CONCURRENCY)
+      const scored = await Promise.all(batch.map((item) => this.scoreMention(item, company)))
+      mentions.push(...scored)
+      this.reportProgress("sentiment", { mentionsAnalyzed: mentions.length })
+    }
+
+    return mentions
+  }
+
+  private async scoreMention(item: SourceMention, company: string): Promise<MentionData> {
+    const sentiment = await this.sentimentAnalyzer.analyze(item.text, company, this.signal)
+
+    return {
+      id: item.id,
+      text: item.text.length > 200 ? item.text.slice(0, 200) + "..." : item.text,
+      body: item.text, // Store full text for AI summary
+      sentiment: sentiment.label,
+      score: sentiment.score,
+      sentimentMethod: sentiment.method,
+      source: item.source,
+      channel: item.channel,
+      author: item.author,
+      created: item.created,
+      url: item.url,
+      engagement: item.engagement,
+      replyCount: item.replyCount,
+      duplicateCount: item.duplicateCount,
+      language: item.language,
+      kind: item.kind,
+      postTitle: item.title,
+      threadId: item.threadId,
+      parentId: item.parentId,
+      depth: item.depth,
+    }
+  }
+
+  /**
+   * Records a stage that fell back to a default after the model's response failed validation
+   */
+  private warn(stage: PipelineStage, error: StructuredOutputError, fallback: string): void {
+    const key = `${stage}:${error.task}`
+    const existing = this.warnings.get(key)
+    if (existing) {
+      existing.count++
+    } else {
+      this.warnings.set(key, { stage, task: error.task, count: 1, fallback, issues: error.issues })
+    }
+  }
+
+  /**
+   * Stops the run if the caller has cancelled it
+   */
+  private checkCancelled(): void {
+    if (this.signal?.aborted) {
+      throw new AnalysisCancelledError()
+    }
+  }
+
+  private startStage(stage: PipelineStage): void {
+    this.checkCancelled()
+    this.onEvent({ type: "stage-start", stage, counts: { ...this.counts } })
+  }
+
+  private reportProgress(stage: PipelineStage, counts: PipelineCounts, message?: string): void {
+    this.counts = { ...this.counts, ...counts }
+    this.onEvent({ type: "stage-progress", stage, counts: { ...this.counts }, message })
+  }
+
+  private reportWait(stage: PipelineStage, waitMs: number, reason: string): void {
+    this.reportProgress(stage, {}, `${reason}, waiting ${Math.ceil(waitMs / 1000)}s`)
+  }
+
+  private completeStage(
+    stage: PipelineStage,
+    counts: PipelineCounts,
+    extra: { topics?: string[]; partial?: Partial<SentimentData> } = {},
+  ): void {
+    this.checkCancelled()
+    this.counts = { ...this.counts, ...counts }
+    this.onEvent({ type: "stage-complete", stage, counts: { ...this.counts }, ...extra })
+  }
+}
@@ -0,0 +1,113 @@
+// Author Filter
+// Drops mentions from bots, deleted accounts and flooding authors before any LLM calls are spent on them
+
+import type { FilteredAuthor, FilteredAuthorReason, SourceMention } from "./types"
+
+// Moderation and utility accounts whose posts never carry customer sentiment
+const DEFAULT_DENIED_AUTHORS = ["automoderator", "sneakpeekbot", "remindmebot", "repostsleuthbot", "savevideo"]
+
+// Sources whose authors are individual user accounts. Feed entries without an author carry the feed's name,
+// and uploaded exports often share one placeholder author, so neither can be judged by volume
+const USER_ACCOUNT_SOURCES = new Set(["reddit", "hackernews"])
+
+export class AuthorFilter {
+  // Items kept per author in a single analysis; the rest is treated as flooding
+  private static MAX_ITEMS_PER_AUTHOR = 5
+  // Authors whose items mostly open the same way are posting from a template
+  private static TEMPLATE_MIN_ITEMS = 3
+  private static TEMPLATE_PREFIX_LENGTH = 40
+
+  private denied: Set<string>
+
+  /**
+   * @param deniedAuthors Extra author names to drop, matched case-insensitively
+   */
+  constructor(deniedAuthors: string[] = []) {
+    this.denied = new Set([...DEFAULT_DENIED_AUTHORS, ...deniedAuthors.map((a) => AuthorFilter.normalize(a))])
+  }
+
+  /**
+   * Removes low-quality items and reports which authors were dropped and why
+   */
+  filter<T extends SourceMention>(items: T[]): { items: T[]; filtered: FilteredAuthor[] } {
+    const report = new Map<string, FilteredAuthor>()
+    const drop = (item: T, reason: FilteredAuthorReason) => {
+      const key = `${item.source}:${item.author}:${reason}`
+      const entry = report.get(key) ?? { author: item.author, source: item.source, reason, count: 0 }
+      entry.count++
+      report.set(key, entry)
+    }
+
+    const kept: T[] = []
+    for (const item of items) {
+      const reason = this.rejectReason(item)
+      if (reason) {
+        drop(item, reason)
+      } else {
+        kept.push(item)
+      }
+    }
+
+    const repetitive = this.findRepetitive(kept)
+    const result = kept.filter((item) => {
+      const reason = repetitive.get(item)
+      if (reason) drop(item, reason)
+      return !reason
+    })
+
+    const filtered = Array.from(report.values()).sort((a, b) => b.count - a.count)
+    if (filtered.length > 0) {
+      console.log(`[v0] Author filter: removed ${items.length - result.length} items from ${filtered.length} authors`)
+    }
+    return { items: result, filtered }
+  }
+
+  private rejectReason(item: SourceMention): FilteredAuthorReason | null {
+    const author = AuthorFilter.normalize(item.author)
+    const text = item.text.trim().toLowerCase()
+
+    if (author === "[deleted]" || text === "[deleted]" || text === "[removed]" || text.endsWith("[removed]")) {
+      return "deleted"
+    }
+    if (this.denied.has(author)) {
+      return "denied"
+    }
+    // Bot accounts conventionally end in "Bot" or "_bot"; "abbot" and friends don't match
+    if (/(?:Bot|[_-]bot)$/.test(item.author.trim())) {
+      return "bot"
+    }
+    return null
+  }
+
+  /**
+   * Marks every item of authors who post the same template over and over, and items past the per-author cap
+   * Only user accounts are checked; feeds and uploaded feedback are exempt
+   */
+  private findRepetitive<T extends SourceMention>(items: T[]): Map<T, FilteredAuthorReason> {
+    const byAuthor = new Map<string, T[]>()
+    for (const item of items) {
+      if (!USER_ACCOUNT_SOURCES.has(item.source)) continue
+      const key = `${item.source}:${AuthorFilter.normalize(item.author)}`
+      byAuthor.set(key, [...(byAuthor.get(key) ?? []), item])
+    }
+
+    const repetitive = new Map<T, FilteredAuthorReason>()
+    byAuthor.forEach((authored) => {
+      const prefixes = new Map<string, number>()
+      for (const item of authored) {
+        const prefix = item.text.toLowerCase().replace(/\s+/g, " ").trim().slice(0, AuthorFilter.TEMPLATE_PREFIX_LENGTH)
+        prefixes.set(prefix, (prefixes.get(prefix) ?? 0) + 1)
+      }
+      const templated = Math.max(...prefixes.values()) >= AuthorFilter.TEMPLATE_MIN_ITEMS
+
+      const excess = templated ? authored : authored.slice(AuthorFilter.MAX_ITEMS_PER_AUTHOR)
+      excess.forEach((item) => repetitive.set(item, "repetitive"))
+    })
+
+    return repetitive
+  }
+
+  private static normalize(author: string): string {
+    return author.trim().replace(/^\/?u\//i, "").toLowerCase()
+  }
+}
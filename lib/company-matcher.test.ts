@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest"
+import { CompanyMatcher } from "./company-matcher"
+import type { CompanyProfile } from "./types"
+
+const META: CompanyProfile = {
+  id: "meta",
+  company: "Meta",
+  aliases: ["Facebook"],
+  ticker: "META",
+  products: ["Instagram", "Threads"],
+  handles: ["@Meta"],
+  negativePatterns: ["meta analysis", "meta tag"],
+  competitors: [],
+  createdAt: "2025-01-01T00:00:00.000Z",
+  updatedAt: "2025-01-01T00:00:00.000Z",
+}
+
+describe("CompanyMatcher", () => {
+  const matcher = new CompanyMatcher("Meta", META)
+
+  it("matches products and handles only as written", () => {
+    expect(matcher.mentions("Posted it on Threads last night")).toBe(true)
+    expect(matcher.mentions("Support replied fast via @Meta")).toBe(true)
+    expect(matcher.mentions("Long comment threads about sourdough")).toBe(false)
+  })
+
+  it("overrides negative patterns only with products written as listed", () => {
+    expect(matcher.matches("great meta analysis in these threads")).toBe(false)
+    expect(matcher.matches("the meta tag on Instagram posts is ignored")).toBe(true)
+  })
+
+  it("matches the name and aliases in any case", () => {
+    expect(matcher.matches("meta raised prices again")).toBe(true)
+    expect(matcher.matches("FACEBOOK is down")).toBe(true)
+  })
+})
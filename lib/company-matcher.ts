@@ -0,0 +1,99 @@
+// Company Matcher
+// Decides whether a text is about the company, using its profile's names and disambiguation patterns
+
+import type { CompanyProfile } from "./types"
+
+export class CompanyMatcher {
+  private names: RegExp[]
+  // Products, handles and the ticker only ever refer to the company, so they outweigh negative patterns
+  private unambiguous: RegExp[]
+  private negative: RegExp[]
+
+  constructor(
+    readonly company: string,
+    readonly profile: CompanyProfile | null = null,
+  ) {
+    // Products and handles are matched as written, so Meta's "Threads" wouldn't match the everyday word "threads"
+    const terms = [...(profile?.products ?? []), ...(profile?.handles ?? [])].map((term) => CompanyMatcher.termPattern(term, true))
+    // Tickers are matched case-sensitively so "META" or "$META" counts but "meta" doesn't
+    const ticker = profile?.ticker ? [new RegExp(`(?<![\\p{L}\\p{N}_])\\$?${CompanyMatcher.escape(profile.ticker)}(?![\\p{L}\\p{N}_])`, "u")] : []
+
+    this.unambiguous = [...terms, ...ticker]
+    this.names = [
+      CompanyMatcher.termPattern(company),
+      ...(profile?.aliases ?? []).map((term) => CompanyMatcher.termPattern(term)),
+      ...this.unambiguous,
+    ]
+    this.negative = (profile?.negativePatterns ?? []).map((pattern) => CompanyMatcher.negativePattern(pattern))
+  }
+
+  /**
+   * Whether the text names the company, one of its aliases, products or handles, or its ticker
+   */
+  mentions(text: string): boolean {
+    return this.names.some((pattern) => pattern.test(text))
+  }
+
+  /**
+   * Whether the text uses the name in another sense, e.g. "apple pie" for Apple
+   * A product, handle or ticker in the same text overrides the negative patterns
+   */
+  isExcluded(text: string): boolean {
+    return this.negative.some((pattern) => pattern.test(text)) && !this.unambiguous.some((pattern) => pattern.test(text))
+  }
+
+  /**
+   * Whether the text is about the company
+   */
+  matches(text: string): boolean {
+    return this.mentions(text) && !this.isExcluded(text)
+  }
+
+  /**
+   * Describes the profile for LLM prompts, or returns an empty string when there is no profile
+   */
+  describe(): string {
+    if (!this.profile) return ""
+
+    const { aliases, ticker, products, handles, negativePatterns, competitors } = this.profile
+    const lines = [
+      aliases.length > 0 && `Also known as: ${aliases.join(", ")}`,
+      ticker && `Stock ticker: ${ticker}`,
+      products.length > 0 && `Products and services: ${products.join(", ")}`,
+      handles.length > 0 && `Official accounts: ${handles.join(", ")}`,
+      competitors.length > 0 && `Competitors: ${competitors.join(", ")}`,
+      negativePatterns.length > 0 &&
+        `Not about ${this.company} (other meanings of the name): ${negativePatterns.map((p) => p.replace(/^\/(.*)\/$/, "$1")).join(", ")}`,
+    ]
+    return lines.filter(Boolean).join("\n")
+  }
+
+  /**
+   * Checks that a negative pattern written as /.../ is a valid regular expression
+   */
+  static isValidPattern(pattern: string): boolean {
+    try {
+      CompanyMatcher.negativePattern(pattern)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  // Whole-word match that also works for names starting or ending in punctuation ("@Meta", "AT&T", "C++")
+  private static termPattern(term: string, caseSensitive = false): RegExp {
+    return new RegExp(
+      `(?<![\\p{L}\\p{N}_])${CompanyMatcher.escape(term.trim())}(?![\\p{L}\\p{N}_])`,
+      caseSensitive ? "u" : "iu",
+    )
+  }
+
+  private static negativePattern(pattern: string): RegExp {
+    const regex = pattern.trim().match(/^\/(.+)\/$/)
+    return regex ? new RegExp(regex[1], "i") : CompanyMatcher.termPattern(pattern)
+  }
+
+  private static escape(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+  }
+}
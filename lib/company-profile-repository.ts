@@ -0,0 +1,153 @@
+// Company Profile Repository
+// Stores the aliases, products and disambiguation patterns used to tell mentions of a company apart
+
+import path from "path"
+import { DATA_DIR, SerialQueue, readJsonFile, writeJsonFile } from "./json-file-store"
+import { SnapshotRepository } from "./snapshot-repository"
+import type { CompanyProfileInput } from "./company-profile-schema"
+import type { CompanyProfile } from "./types"
+
+const SEEDED_AT = "2025-01-01T00:00:00.000Z"
+
+// Profiles for names that are commonly ambiguous; they apply until the profile store is first written
+const DEFAULT_PROFILES: CompanyProfile[] = [
+  {
+    id: "tesla",
+    company: "Tesla",
+    aliases: ["Tesla Motors"],
+    ticker: "TSLA",
+    products: ["Model 3", "Model Y", "Model S", "Model X", "Cybertruck", "Powerwall", "Supercharger"],
+    handles: ["@Tesla"],
+    negativePatterns: ["tesla coil", "nikola tesla", "/tesla\\s+(unit|measurement)/"],
+    competitors: ["Rivian", "Lucid", "BYD", "Polestar"],
+    createdAt: SEEDED_AT,
+    updatedAt: SEEDED_AT,
+  },
+  {
+    id: "apple",
+    company: "Apple",
+    aliases: [],
+    ticker: "AAPL",
+    products: ["iPhone", "iPad", "MacBook", "iMac", "AirPods", "Apple Watch", "iOS", "macOS", "App Store", "iCloud"],
+    handles: ["@Apple", "@AppleSupport"],
+    negativePatterns: [
+      "apple pie",
+      "apple juice",
+      "apple cider",
+      "apple tree",
+      "apple orchard",
+      "/\\bapples\\b/",
+      "big apple",
+    ],
+    competitors: ["Samsung", "Google", "Microsoft"],
+    createdAt: SEEDED_AT,
+    updatedAt: SEEDED_AT,
+  },
+  {
+    id: "meta",
+    company: "Meta",
+    aliases: ["Facebook", "Meta Platforms"],
+    ticker: "META",
+    // Products named with everyday words ("Threads", "Messenger") would turn ordinary text into mentions
+    products: ["Instagram", "WhatsApp", "Quest 3", "Oculus", "Ray-Ban Meta"],
+    handles: ["@Meta"],
+    negativePatterns: ["meta tag", "meta description", "meta analysis", "meta-analysis", "/\\bmeta\\s+(build|deck|game)s?\\b/"],
+    competitors: ["TikTok", "Snapchat", "X", "YouTube"],
+    createdAt: SEEDED_AT,
+    updatedAt: SEEDED_AT,
+  },
+]
+
+export class DuplicateProfileError extends Error {
+  constructor(company: string) {
+    super(`${company} already has a profile`)
+    this.name = "DuplicateProfileError"
+  }
+}
+
+export class CompanyProfileRepository {
+  private writeQueue = new SerialQueue()
+
+  constructor(private filePath = path.join(DATA_DIR, "company-profiles.json")) {}
+
+  async list(): Promise<CompanyProfile[]> {
+    const profiles = await this.read()
+    return profiles.sort((a, b) => a.company.localeCompare(b.company))
+  }
+
+  async get(id: string): Promise<CompanyProfile | null> {
+    const profiles = await this.read()
+    return profiles.find((p) => p.id === id) ?? null
+  }
+
+  /**
+   * Finds the profile for a company, ignoring casing and surrounding whitespace
+   */
+  async findByCompany(company: string): Promise<CompanyProfile | null> {
+    const key = SnapshotRepository.normalizeCompany(company)
+    const profiles = await this.read()
+    return profiles.find((p) => SnapshotRepository.normalizeCompany(p.company) === key) ?? null
+  }
+
+  /**
+   * Creates a profile, returning null if the company already has one
+   */
+  async add(input: CompanyProfileInput): Promise<CompanyProfile | null> {
+    return this.writeQueue.enqueue(async () => {
+      const profiles = await this.read()
+      const key = SnapshotRepository.normalizeCompany(input.company)
+      if (profiles.some((p) => SnapshotRepository.normalizeCompany(p.company) === key)) {
+        return null
+      }
+
+      const now = new Date().toISOString()
+      const profile: CompanyProfile = { ...input, id: crypto.randomUUID(), createdAt: now, updatedAt: now }
+
+      await writeJsonFile(this.filePath, [...profiles, profile])
+      return profile
+    })
+  }
+
+  /**
+   * Replaces a profile's fields, returning null if it does not exist
+   * Throws if it would be renamed to a company that already has a profile
+   */
+  async update(id: string, input: CompanyProfileInput): Promise<CompanyProfile | null> {
+    return this.writeQueue.enqueue(async () => {
+      const profiles = await this.read()
+      const index = profiles.findIndex((p) => p.id === id)
+      if (index === -1) return null
+
+      const key = SnapshotRepository.normalizeCompany(input.company)
+      if (profiles.some((p) => p.id !== id && SnapshotRepository.normalizeCompany(p.company) === key)) {
+        throw new DuplicateProfileError(input.company)
+      }
+
+      const profile: CompanyProfile = { ...input, id, createdAt: profiles[index].createdAt, updatedAt: new Date().toISOString() }
+      profiles[index] = profile
+      await writeJsonFile(this.filePath, profiles)
+      return profile
+    })
+  }
+
+  async remove(id: string): Promise<boolean> {
+    return this.writeQueue.enqueue(async () => {
+      const profiles = await this.read()
+      const remaining = profiles.filter((p) => p.id !== id)
+      if (remaining.length === profiles.length) return false
+
+      await writeJsonFile(this.filePath, remaining)
+      return true
+    })
+  }
+
+  private read(): Promise<CompanyProfile[]> {
+    return readJsonFile<CompanyProfile[]>(this.filePath, DEFAULT_PROFILES.map((p) => ({ ...p })))
+  }
+}
+
+const globalForProfiles = globalThis as unknown as { companyProfileRepository?: CompanyProfileRepository }
+
+export const companyProfileRepository =
+  globalForProfiles.companyProfileRepository ??
+  (globalForProfiles.companyProfileRepository = new CompanyProfileRepository())
@@ -0,0 +1,61 @@
+// Company Profile Schema
+// Validates the company profile fields accepted by the profile endpoints
+
+import { z } from "zod"
+import { CompanyMatcher } from "./company-matcher"
+import type { CompanyProfile } from "./types"
+
+export type CompanyProfileInput = Omit<CompanyProfile, "id" | "createdAt" | "updatedAt">
+
+export const PROFILE_LIMITS = {
+  terms: { max: 30 },
+  termLength: { max: 100 },
+}
+
+// Accepts a comma-separated string (form fields) or an array (JSON bodies); repeats and blanks are dropped
+const termList = (item: z.ZodType<string, z.ZodTypeDef, string> = z.string()) =>
+  z.preprocess(
+    (value) => (typeof value === "string" ? value.split(",") : value),
+    z
+      .array(z.string().trim())
+      .transform((terms) => Array.from(new Set(terms.filter((term) => term !== ""))))
+      .pipe(z.array(item.pipe(z.string().max(PROFILE_LIMITS.termLength.max))).max(PROFILE_LIMITS.terms.max)),
+  )
+
+export const companyProfileSchema = z.object({
+  company: z.string().trim().min(1, "Company is required").max(PROFILE_LIMITS.termLength.max),
+  aliases: termList().default([]),
+  ticker: z
+    .string()
+    .trim()
+    .transform((ticker) => ticker.replace(/^\$/, "").toUpperCase())
+    .pipe(z.string().regex(/^[A-Z][A-Z0-9.]{0,9}$/, "Invalid ticker"))
+    .optional(),
+  products: termList().default([]),
+  handles: termList().default([]),
+  negativePatterns: termList(z.string().refine(CompanyMatcher.isValidPattern, "Invalid regular expression")).default([]),
+  competitors: termList().default([]),
+})
+
+export type ProfileParseResult =
+  | { success: true; profile: CompanyProfileInput }
+  | { success: false; error: string; details: Record<string, string[]> }
+
+/**
+ * Validates the editable fields of a profile, filling in empty lists for anything omitted
+ */
+export function parseCompanyProfile(input: Record<string, unknown> = {}): ProfileParseResult {
+  // A blank ticker field means no ticker rather than an invalid one
+  const cleaned = { ...input, ticker: input.ticker === "" || input.ticker === null ? undefined : input.ticker }
+  const result = companyProfileSchema.safeParse(cleaned)
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: "Invalid company profile",
+      details: result.error.flatten().fieldErrors as Record<string, string[]>,
+    }
+  }
+
+  return { success: true, profile: result.data }
+}
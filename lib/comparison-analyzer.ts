@@ -0,0 +1,114 @@
+// Comparison Analyzer
+// Compares sentiment results across companies: share of voice, score gaps and shared topics
+
+import type { AnalysisJob } from "./analysis-jobs"
+import type { CommonTopic, ComparisonResult, SentimentData, TopicCluster } from "./types"
+
+/**
+ * Progress of a comparison: one analysis job per company, compared once every job has completed
+ */
+export interface ComparisonStatus {
+  // Jobs are listed without their results, which the comparison already carries
+  jobs: AnalysisJob[]
+  comparison: ComparisonResult | null
+}
+
+// Words (already singularized) that carry no meaning when matching topic names across companies
+const STOP_WORDS = new Set(["and", "the", "of", "for", "with", "to", "in", "on", "a", "an", "issue", "concern", "feedback"])
+
+export class ComparisonAnalyzer {
+  // Minimum word overlap for two topic names to count as the same topic
+  static TOPIC_SIMILARITY_THRESHOLD = 0.5
+
+  /**
+   * Builds the comparison; the first company is the baseline for score differences
+   */
+  static compare(results: Array<{ company: string; data: SentimentData }>): ComparisonResult {
+    const totalMentions = results.reduce((sum, r) => sum + r.data.total, 0)
+    const baseline = results[0]
+
+    const companies = results.map(({ company, data }) => ({
+      company,
+      data,
+      shareOfVoice: totalMentions > 0 ? data.total / totalMentions : 0,
+      scoreDifference: data.score - baseline.data.score,
+    }))
+
+    const commonTopics = this.findCommonTopics(results)
+    const matched = new Set(commonTopics.flatMap((t) => t.companies.map((c) => `${c.company}\u0000${c.topic}`)))
+
+    const uniqueTopics: Record<string, string[]> = {}
+    for (const { company, data } of results) {
+      uniqueTopics[company] = (data.topicClusters ?? [])
+        .map((c) => c.topic)
+        .filter((topic) => !matched.has(`${company}\u0000${topic}`))
+    }
+
+    return { baseline: baseline.company, companies, commonTopics, uniqueTopics }
+  }
+
+  /**
+   * Groups topic clusters from different companies that describe the same theme
+   * Only groups covering at least two companies are returned
+   */
+  private static findCommonTopics(results: Array<{ company: string; data: SentimentData }>): CommonTopic[] {
+    const groups: Array<{ words: Set<string>; topic: string; members: CommonTopic["companies"] }> = []
+
+    for (const { company, data } of results) {
+      for (const cluster of data.topicClusters ?? []) {
+        const words = this.topicWords(cluster.topic, results.map((r) => r.company))
+        if (words.size === 0) continue
+
+        const group = groups.find(
+          (g) =>
+            !g.members.some((m) => m.company === company) &&
+            this.similarity(g.words, words) >= this.TOPIC_SIMILARITY_THRESHOLD,
+        )
+
+        const member = this.toMember(company, cluster)
+        if (group) {
+          group.members.push(member)
+        } else {
+          groups.push({ words, topic: cluster.topic, members: [member] })
+        }
+      }
+    }
+
+    return groups
+      .filter((g) => g.members.length > 1)
+      .sort((a, b) => b.members.length - a.members.length)
+      .map((g) => ({ topic: g.topic, companies: g.members }))
+  }
+
+  private static toMember(company: string, cluster: TopicCluster): CommonTopic["companies"][number] {
+    return {
+      company,
+      topic: cluster.topic,
+      mentionCount: cluster.mentionCount,
+      averageSentiment: cluster.averageSentiment,
+    }
+  }
+
+  /**
+   * Normalizes a topic name into its significant words, ignoring the company names themselves
+   */
+  private static topicWords(topic: string, companies: string[]): Set<string> {
+    const companyWords = new Set(companies.flatMap((c) => c.toLowerCase().split(/\s+/)))
+
+    return new Set(
+      topic
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .map((word) => word.replace(/s$/, ""))
+        .filter((word) => word.length > 1 && !STOP_WORDS.has(word) && !companyWords.has(word)),
+    )
+  }
+
+  /**
+   * Overlap coefficient: shared words divided by the size of the smaller set
+   */
+  private static similarity(a: Set<string>, b: Set<string>): number {
+    const shared = Array.from(a).filter((word) => b.has(word)).length
+    return shared / Math.min(a.size, b.size)
+  }
+}
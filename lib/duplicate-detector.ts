@@ -0,0 +1,96 @@
+// Duplicate Detector
+// Collapses crossposts and near-identical texts so each voice is analyzed and counted once
+
+import type { SourceMention } from "./types"
+
+export interface CollapseResult<T> {
+  items: T[]
+  // How many items were merged into another one
+  collapsed: number
+}
+
+export class DuplicateDetector {
+  // Words per shingle; three-word runs survive small edits but rarely repeat across unrelated texts
+  private static SHINGLE_SIZE = 3
+  // Shorter texts ("Same here", "This.") are too generic to tell copying from coincidence
+  private static MIN_WORDS = 8
+
+  /**
+   * @param threshold Jaccard similarity of word shingles at or above which two texts count as duplicates
+   */
+  constructor(private threshold = 0.6) {}
+
+  /**
+   * Groups near-duplicates and keeps the most engaged item of each group, annotated with duplicateCount
+   * Items keep the order in which their group first appeared
+   */
+  collapse<T extends SourceMention>(items: T[]): CollapseResult<T> {
+    const groups: Array<{ members: T[]; shingles: Set<string> | null }> = []
+    const groupsByKey = new Map<string, (typeof groups)[number]>()
+
+    for (const item of items) {
+      // A crosspost and its original share a key whichever of them comes first
+      const key = `${item.source}:${item.canonicalId ?? item.id}`
+      const shingles = DuplicateDetector.shingles(item.text)
+
+      let group = groupsByKey.get(key)
+      if (!group && shingles) {
+        group = groups.find((g) => g.shingles && DuplicateDetector.similarity(g.shingles, shingles) >= this.threshold)
+      }
+
+      if (group) {
+        group.members.push(item)
+      } else {
+        group = { members: [item], shingles }
+        groups.push(group)
+      }
+      groupsByKey.set(key, group)
+    }
+
+    const distinct = groups.map(({ members }) => {
+      if (members.length === 1) return members[0]
+
+      const representative = members.reduce((best, m) => (m.engagement > best.engagement ? m : best))
+      // Members may already stand for earlier collapsed copies
+      const duplicateCount = members.reduce((sum, m) => sum + 1 + (m.duplicateCount ?? 0), 0) - 1
+      return { ...representative, duplicateCount }
+    })
+
+    return { items: distinct, collapsed: items.length - distinct.length }
+  }
+
+  /**
+   * Word shingles of the text without quoted lines, links and punctuation
+   * Returns null for texts too short to compare
+   */
+  static shingles(text: string): Set<string> | null {
+    const words = text
+      // Quote-replies repeat the comment they answer; only the reply's own words matter
+      .replace(/^\s*>.*$/gm, " ")
+      .replace(/https?:\/\/\S+/g, " ")
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, " ")
+      .split(/\s+/)
+      .filter(Boolean)
+
+    if (words.length < this.MIN_WORDS) return null
+
+    const shingles = new Set<string>()
+    for (let i = 0; i + this.SHINGLE_SIZE <= words.length; i++) {
+      shingles.add(words.slice(i, i + this.SHINGLE_SIZE).join(" "))
+    }
+    return shingles
+  }
+
+  /**
+   * Jaccard similarity of two shingle sets
+   */
+  static similarity(a: Set<string>, b: Set<string>): number {
+    const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a]
+    let shared = 0
+    for (const shingle of smaller) {
+      if (larger.has(shingle)) shared++
+    }
+    return shared / (a.size + b.size - shared)
+  }
+}
@@ -0,0 +1,96 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { FeedClient } from "./feed-client"
+import { FeedRepository } from "./feed-repository"
+
+const FIXTURES = path.join(__dirname, "..", "fixtures", "feeds")
+
+// Each URL serves one fixture; anything else is a 404
+const FEEDS: Record<string, string> = {
+  "https://press.acme.example/rss": "acme-press.rss.xml",
+  "https://press.acme.example/rss?mirror=1": "acme-press.rss.xml",
+  "https://blog.acme.example/feed.atom": "acme-blog.atom.xml",
+}
+
+const fetcher = (async (input: string | URL | Request) => {
+  const file = FEEDS[String(input)]
+  if (!file) return new Response("Not found", { status: 404 })
+  return new Response(await readFile(path.join(FIXTURES, file), "utf8"))
+}) as typeof fetch
+
+describe("FeedClient", () => {
+  let dir: string
+  let repository: FeedRepository
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "feed-client-"))
+    repository = new FeedRepository(path.join(dir, "feeds.json"))
+  })
+
+  afterEach(async () => {
+    FeedClient.TIMEOUT_MS = 10000
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it("keeps one mention per GUID, within a feed and across feeds", async () => {
+    await repository.add("Acme", "https://press.acme.example/rss")
+    await repository.add("Acme", "https://press.acme.example/rss?mirror=1")
+    await repository.add("Acme", "https://blog.acme.example/feed.atom")
+
+    const mentions = await new FeedClient(repository, fetcher).search("Acme", { timeframe: "all" })
+
+    expect(mentions.map((m) => m.title)).toEqual([
+      "What we learned from last week's sync outage",
+      "Acme's new dashboard wins over early customers",
+      "Acme outage leaves users without sync for six hours",
+    ])
+    // The first copy of acme-press-1042 wins, not the later one with tracking parameters
+    expect(mentions[1]).toMatchObject({
+      url: "https://press.acme.example/2025/10/dashboard-review",
+      channel: "Acme Newsroom",
+      author: "Jamie Rivera",
+    })
+    // Entries without an author are credited to the feed
+    expect(mentions[2].author).toBe("Acme Newsroom")
+    expect(new Set(mentions.map((m) => m.id)).size).toBe(3)
+  })
+
+  it("gives up on a feed that doesn't answer and reads the rest", async () => {
+    await repository.add("Acme", "https://blog.acme.example/feed.atom")
+    await repository.add("Acme", "https://slow.acme.example/rss")
+    FeedClient.TIMEOUT_MS = 50
+
+    // The slow host only ever answers by failing once the request is aborted
+    const hanging = (async (input: string | URL | Request, init?: RequestInit) => {
+      if (!String(input).includes("slow")) return fetcher(input, init)
+      return new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener("abort", () => reject(init.signal?.reason))
+      })
+    }) as typeof fetch
+
+    const mentions = await new FeedClient(repository, hanging).search("Acme", {
+      timeframe: "all",
+      signal: new AbortController().signal,
+    })
+
+    expect(mentions).toHaveLength(1)
+    const slow = (await repository.list("Acme")).find((f) => f.url === "https://slow.acme.example/rss")
+    expect(slow?.lastError).toBe("Feed did not respond within 0.05 seconds")
+  })
+
+  it("records fetch errors without failing the other feeds", async () => {
+    await repository.add("Acme", "https://blog.acme.example/feed.atom")
+    await repository.add("Acme", "https://broken.acme.example/rss")
+
+    const mentions = await new FeedClient(repository, fetcher).search("Acme", { timeframe: "all" })
+
+    expect(mentions).toHaveLength(1)
+    const feeds = await repository.list("Acme")
+    expect(feeds.find((f) => f.url === "https://broken.acme.example/rss")?.lastError).toBe("Feed returned status 404")
+    const working = feeds.find((f) => f.url === "https://blog.acme.example/feed.atom")
+    expect(working?.lastFetchedAt).toBeDefined()
+    expect(working?.lastError).toBeUndefined()
+  })
+})
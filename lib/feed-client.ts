@@ -0,0 +1,112 @@
+// Feed Client
+// Turns the RSS/Atom feeds registered for a company into mentions
+
+import { createHash } from "crypto"
+import { TIMEFRAME_SECONDS } from "./analysis-parameters"
+import { FeedParser, type ParsedFeed } from "./feed-parser"
+import { feedRepository, type FeedRepository } from "./feed-repository"
+import type { MentionSource, SourceSearchOptions } from "./mention-source"
+import type { SourceMention } from "./types"
+
+// Full-content feeds can carry whole articles; the opening is enough for sentiment
+const MAX_TEXT_LENGTH = 2000
+
+export class FeedClient implements MentionSource {
+  readonly id = "feeds" as const
+  readonly label = "RSS feeds"
+  // Feeds aren't searchable, so every topic would return the same entries
+  readonly searchOnce = true
+  // One slow feed host shouldn't hold up the whole search stage
+  static TIMEOUT_MS = 10000
+
+  /**
+   * The repository and fetch can be swapped, e.g. to read a local fixture feed
+   */
+  constructor(
+    private repository: FeedRepository = feedRepository,
+    private fetcher: typeof fetch = fetch,
+  ) {}
+
+  /**
+   * Returns the entries of every feed registered for the company, newest first
+   */
+  async search(query: string, options: SourceSearchOptions = {}): Promise<SourceMention[]> {
+    const { limit = 20, timeframe = "week", company = query, signal } = options
+
+    const feeds = await this.repository.list(company)
+    if (feeds.length === 0) return []
+
+    console.log(`[v0] Fetching ${feeds.length} feeds for: ${company}`)
+
+    const since = TIMEFRAME_SECONDS[timeframe] ? Date.now() - TIMEFRAME_SECONDS[timeframe] * 1000 : 0
+    const byGuid = new Map<string, SourceMention>()
+
+    for (const feed of feeds) {
+      try {
+        const timeout = AbortSignal.timeout(FeedClient.TIMEOUT_MS)
+        const parsed = await this.fetchFeed(feed.url, signal ? AbortSignal.any([signal, timeout]) : timeout)
+        await this.repository.recordFetch(feed.id)
+
+        const channel = parsed.title || feed.title || new URL(feed.url).hostname
+        for (const entry of parsed.entries) {
+          // The same story often appears in several feeds; the GUID identifies it across them
+          const id = createHash("sha1").update(entry.guid).digest("hex").slice(0, 16)
+          const created = entry.published ?? new Date().toISOString()
+          if (byGuid.has(id) || new Date(created).getTime() < since) continue
+
+          byGuid.set(id, {
+            id,
+            source: this.id,
+            kind: "post",
+            text: `${entry.title}. ${entry.summary}`.slice(0, MAX_TEXT_LENGTH).trim(),
+            title: entry.title,
+            channel,
+            author: entry.author || channel,
+            url: entry.link || feed.url,
+            created,
+            engagement: 0,
+          })
+        }
+      } catch (error) {
+        if (signal?.aborted) throw error
+        console.error(`[v0] Failed to read feed ${feed.url}:`, error)
+        const message =
+          error instanceof Error && error.name === "TimeoutError"
+            ? `Feed did not respond within ${FeedClient.TIMEOUT_MS / 1000} seconds`
+            : error instanceof Error
+              ? error.message
+              : "Failed to read feed"
+        await this.repository.recordFetch(feed.id, message)
+      }
+    }
+
+    const mentions = Array.from(byGuid.values())
+      .sort((a, b) => b.created.localeCompare(a.created))
+      .slice(0, limit)
+    console.log("[v0] Found feed entries:", mentions.length)
+
+    return mentions
+  }
+
+  /**
+   * Feed entries have no replies to load
+   */
+  async fetchConversation(): Promise<SourceMention[]> {
+    return []
+  }
+
+  /**
+   * Downloads and parses a feed, throwing if it can't be read
+   */
+  async fetchFeed(url: string, signal?: AbortSignal): Promise<ParsedFeed> {
+    const response = await this.fetcher(url, {
+      headers: { Accept: "application/rss+xml, application/atom+xml, application/xml, text/xml;q=0.9, */*;q=0.8" },
+      signal,
+    })
+    if (!response.ok) {
+      throw new Error(`Feed returned status ${response.status}`)
+    }
+
+    return FeedParser.parse(await response.text())
+  }
+}
@@ -0,0 +1,57 @@
+import { readFileSync } from "node:fs"
+import path from "node:path"
+import { describe, expect, it } from "vitest"
+import { FeedParser } from "./feed-parser"
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, "..", "fixtures", "feeds", name), "utf8")
+
+describe("FeedParser", () => {
+  it("parses RSS items with CDATA, entities and Dublin Core authors", () => {
+    const feed = FeedParser.parse(fixture("acme-press.rss.xml"))
+
+    expect(feed.title).toBe("Acme Newsroom")
+    expect(feed.entries).toHaveLength(3)
+    expect(feed.entries[0]).toEqual({
+      guid: "acme-press-1042",
+      title: "Acme's new dashboard wins over early customers",
+      summary: "Reviewers praised Acme's faster onboarding, though several noted pricing remains confusing.",
+      link: "https://press.acme.example/2025/10/dashboard-review",
+      author: "Jamie Rivera",
+      published: "2025-10-17T09:30:00.000Z",
+    })
+    expect(feed.entries[1]).toMatchObject({
+      guid: "acme-press-1043",
+      summary: "Customers complained about slow status updates & missing communication during the incident.",
+      author: undefined,
+      published: "2025-10-16T18:05:00.000Z",
+    })
+  })
+
+  it("parses Atom entries, preferring the alternate link and decoding escaped HTML", () => {
+    const feed = FeedParser.parse(fixture("acme-blog.atom.xml"))
+
+    expect(feed.title).toBe("Acme Engineering Blog")
+    expect(feed.entries).toEqual([
+      {
+        guid: "urn:uuid:acme-blog-77",
+        title: "What we learned from last week's sync outage",
+        summary: "A postmortem of the Acme sync outage and the changes we're making.",
+        link: "https://blog.acme.example/sync-outage-postmortem",
+        author: "Priya Shah",
+        published: "2025-10-17T12:00:00.000Z",
+      },
+    ])
+  })
+
+  it("falls back to the link when an item has no GUID", () => {
+    const feed = FeedParser.parse(`<rss version="2.0"><channel><title>Feed</title>
+      <item><title>No guid</title><link>https://example.com/a</link><pubDate>not a date</pubDate></item>
+    </channel></rss>`)
+
+    expect(feed.entries[0]).toMatchObject({ guid: "https://example.com/a", published: undefined })
+  })
+
+  it("rejects documents that are neither RSS nor Atom", () => {
+    expect(() => FeedParser.parse("<html><body>Not a feed</body></html>")).toThrow("Not an RSS or Atom feed")
+  })
+})
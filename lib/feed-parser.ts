@@ -0,0 +1,111 @@
+// Feed Parser
+// Reads RSS 2.0 and Atom documents into plain entries
+
+import type { FeedEntry } from "./types"
+
+export interface ParsedFeed {
+  title?: string
+  entries: FeedEntry[]
+}
+
+export class FeedParser {
+  /**
+   * Parses an RSS 2.0 or Atom document; throws if it is neither
+   */
+  static parse(xml: string): ParsedFeed {
+    if (/<rss[\s>]/i.test(xml) || /<rdf:RDF[\s>]/i.test(xml)) {
+      return this.parseRss(xml)
+    }
+    if (/<feed[\s>]/i.test(xml)) {
+      return this.parseAtom(xml)
+    }
+    throw new Error("Not an RSS or Atom feed")
+  }
+
+  private static parseRss(xml: string): ParsedFeed {
+    const channel = this.firstElement(xml, "channel") ?? xml
+    const entries = this.elements(xml, "item").map((item) => {
+      const link = this.text(item, "link")
+      return {
+        guid: this.text(item, "guid") || link || `${this.text(item, "title")}|${this.text(item, "pubDate")}`,
+        title: this.text(item, "title"),
+        summary: this.text(item, "content:encoded") || this.text(item, "description"),
+        link,
+        author: this.text(item, "dc:creator") || this.text(item, "author") || undefined,
+        published: this.toIso(this.text(item, "pubDate") || this.text(item, "dc:date")),
+      }
+    })
+
+    return { title: this.text(channel.split(/<item[\s>]/i)[0], "title") || undefined, entries }
+  }
+
+  private static parseAtom(xml: string): ParsedFeed {
+    const header = xml.split(/<entry[\s>]/i)[0]
+    const entries = this.elements(xml, "entry").map((entry) => {
+      const link = this.atomLink(entry)
+      const author = this.firstElement(entry, "author")
+      return {
+        guid: this.text(entry, "id") || link,
+        title: this.text(entry, "title"),
+        summary: this.text(entry, "summary") || this.text(entry, "content"),
+        link,
+        author: author ? this.text(author, "name") || undefined : undefined,
+        published: this.toIso(this.text(entry, "published") || this.text(entry, "updated")),
+      }
+    })
+
+    return { title: this.text(header, "title") || undefined, entries }
+  }
+
+  /**
+   * Prefers rel="alternate" (or no rel) over self/edit links
+   */
+  private static atomLink(entry: string): string {
+    const links = Array.from(entry.matchAll(/<link\b([^>]*)\/?>/gi)).map((match) => match[1])
+    const alternate = links.find((attrs) => !/\brel=/i.test(attrs) || /\brel=["']alternate["']/i.test(attrs))
+    const href = (alternate ?? links[0])?.match(/\bhref=["']([^"']+)["']/i)
+    return href ? this.decodeEntities(href[1]) : ""
+  }
+
+  private static elements(xml: string, tag: string): string[] {
+    const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "gi")
+    return Array.from(xml.matchAll(pattern)).map((match) => match[1])
+  }
+
+  private static firstElement(xml: string, tag: string): string | null {
+    return this.elements(xml, tag)[0] ?? null
+  }
+
+  /**
+   * Text content of the first matching child, with CDATA unwrapped and markup stripped
+   */
+  private static text(xml: string, tag: string): string {
+    const raw = this.firstElement(xml, tag)
+    if (raw === null) return ""
+
+    const unwrapped = raw.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    // Escaped HTML (Atom type="html", many RSS descriptions) decodes to markup and entities, so strip and decode again
+    const decoded = this.decodeEntities(unwrapped.replace(/<[^>]+>/g, " "))
+    return this.decodeEntities(decoded.replace(/<[^>]+>/g, " "))
+      .replace(/\s+/g, " ")
+      .trim()
+  }
+
+  private static decodeEntities(text: string): string {
+    return text
+      .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+      .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(Number.parseInt(code, 16)))
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&nbsp;/g, " ")
+      .replace(/&gt;/g, ">")
+      .replace(/&lt;/g, "<")
+      .replace(/&amp;/g, "&")
+  }
+
+  private static toIso(value: string): string | undefined {
+    if (!value) return undefined
+    const date = new Date(value)
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString()
+  }
+}
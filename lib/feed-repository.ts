@@ -0,0 +1,87 @@
+// Feed Repository
+// Stores the RSS/Atom feed URLs registered for each company
+
+import path from "path"
+import { DATA_DIR, SerialQueue, readJsonFile, writeJsonFile } from "./json-file-store"
+import { SnapshotRepository } from "./snapshot-repository"
+import type { FeedSubscription } from "./types"
+
+export class FeedRepository {
+  private writeQueue = new SerialQueue()
+
+  constructor(private filePath = path.join(DATA_DIR, "feeds.json")) {}
+
+  /**
+   * Lists feeds, optionally only those registered for one company
+   */
+  async list(company?: string): Promise<FeedSubscription[]> {
+    const feeds = await this.read()
+    const key = company ? SnapshotRepository.normalizeCompany(company) : null
+
+    return feeds
+      .filter((f) => key === null || SnapshotRepository.normalizeCompany(f.company) === key)
+      .sort((a, b) => a.company.localeCompare(b.company) || a.url.localeCompare(b.url))
+  }
+
+  async get(id: string): Promise<FeedSubscription | null> {
+    const feeds = await this.read()
+    return feeds.find((f) => f.id === id) ?? null
+  }
+
+  /**
+   * Registers a feed for a company, returning null if it is already registered
+   */
+  async add(company: string, url: string, title?: string): Promise<FeedSubscription | null> {
+    return this.writeQueue.enqueue(async () => {
+      const feeds = await this.read()
+      const key = SnapshotRepository.normalizeCompany(company)
+      if (feeds.some((f) => SnapshotRepository.normalizeCompany(f.company) === key && f.url === url)) {
+        return null
+      }
+
+      const feed: FeedSubscription = {
+        id: crypto.randomUUID(),
+        company: company.trim(),
+        url,
+        title,
+        createdAt: new Date().toISOString(),
+      }
+
+      await writeJsonFile(this.filePath, [...feeds, feed])
+      return feed
+    })
+  }
+
+  /**
+   * Records the outcome of the latest fetch so the feed list can flag broken feeds
+   */
+  async recordFetch(id: string, error?: string): Promise<void> {
+    await this.writeQueue.enqueue(async () => {
+      const feeds = await this.read()
+      const index = feeds.findIndex((f) => f.id === id)
+      if (index === -1) return
+
+      feeds[index] = { ...feeds[index], lastFetchedAt: new Date().toISOString(), lastError: error }
+      await writeJsonFile(this.filePath, feeds)
+    })
+  }
+
+  async remove(id: string): Promise<boolean> {
+    return this.writeQueue.enqueue(async () => {
+      const feeds = await this.read()
+      const remaining = feeds.filter((f) => f.id !== id)
+      if (remaining.length === feeds.length) return false
+
+      await writeJsonFile(this.filePath, remaining)
+      return true
+    })
+  }
+
+  private read(): Promise<FeedSubscription[]> {
+    return readJsonFile<FeedSubscription[]>(this.filePath, [])
+  }
+}
+
+const globalForFeeds = globalThis as unknown as { feedRepository?: FeedRepository }
+
+export const feedRepository = globalForFeeds.feedRepository ?? (globalForFeeds.feedRepository = new FeedRepository())
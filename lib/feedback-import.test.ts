@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest"
+import { FeedbackImporter } from "./feedback-import"
+
+describe("FeedbackImporter", () => {
+  it("numbers CSV rows the way a spreadsheet does, across blank lines and quoted newlines", () => {
+    const csv = [
+      "text,date",
+      "Great support,2025-10-01",
+      "",
+      '"Slow checkout,',
+      'and the app crashed",2025-10-02',
+      "Billing was fine,not a date",
+      "",
+    ].join("\r\n")
+
+    const parsed = FeedbackImporter.parse(csv, "csv")
+    const { mentions, errors } = FeedbackImporter.toMentions(parsed, { text: "text", date: "date" })
+
+    // Header is row 1, the blank line is row 3 and the quoted record takes up row 4
+    expect(parsed.rowNumbers).toEqual([2, 4, 5])
+    expect(mentions.map((m) => m.id)).toEqual(["upload-2", "upload-4"])
+    expect(errors).toEqual([{ row: 5, message: 'Invalid date "not a date"' }])
+  })
+
+  it("numbers JSONL rows by line, skipping blank lines", () => {
+    const jsonl = ['{"text": "Love it"}', "", '{"text": "Broken link", "url": "example.com"}'].join("\n")
+
+    const { mentions, errors } = FeedbackImporter.toMentions(FeedbackImporter.parse(jsonl, "jsonl"), {
+      text: "text",
+      url: "url",
+    })
+
+    expect(mentions.map((m) => m.id)).toEqual(["upload-1"])
+    expect(errors).toEqual([{ row: 3, message: 'Invalid URL "example.com"' }])
+  })
+})
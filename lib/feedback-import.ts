@@ -0,0 +1,212 @@
+// Feedback Import
+// Parses uploaded CSV/JSONL feedback and maps its columns onto mentions
+
+import { z } from "zod"
+import type { ColumnMapping, FeedbackFormat, FeedbackRowError, SourceMention } from "./types"
+
+const optionalColumn = z
+  .string()
+  .trim()
+  .optional()
+  .transform((value) => value || undefined)
+
+export const columnMappingSchema = z.object({
+  text: z.string().trim().min(1, "Choose the column that holds the feedback text"),
+  author: optionalColumn,
+  date: optionalColumn,
+  url: optionalColumn,
+  channel: optionalColumn,
+})
+
+export interface ParsedFeedback {
+  columns: string[]
+  rows: Array<Record<string, string>>
+  // Where each row sits in the file: the spreadsheet row for CSV (the header is row 1), the line for JSONL
+  rowNumbers: number[]
+}
+
+export class FeedbackImporter {
+  static MAX_ROWS = 5000
+  static MAX_BYTES = 5 * 1024 * 1024
+
+  /**
+   * Guesses the format from a file name, defaulting to CSV
+   */
+  static detectFormat(fileName: string): FeedbackFormat {
+    return /\.(jsonl|ndjson)$/i.test(fileName) ? "jsonl" : "csv"
+  }
+
+  /**
+   * Parses file contents into rows keyed by column name
+   */
+  static parse(content: string, format: FeedbackFormat): ParsedFeedback {
+    return format === "jsonl" ? this.parseJsonl(content) : this.parseCsv(content)
+  }
+
+  /**
+   * Validates each row against the column mapping and converts valid rows to mentions
+   * Rows with blank text are skipped silently; anything else invalid is reported with its row number
+   */
+  static toMentions(
+    parsed: ParsedFeedback,
+    mapping: ColumnMapping,
+  ): { mentions: SourceMention[]; errors: FeedbackRowError[] } {
+    const mentions: SourceMention[] = []
+    const errors: FeedbackRowError[] = []
+
+    if (!parsed.columns.includes(mapping.text)) {
+      return { mentions, errors: [{ row: 0, message: `Text column "${mapping.text}" not found` }] }
+    }
+    for (const field of ["author", "date", "url", "channel"] as const) {
+      const column = mapping[field]
+      if (column && !parsed.columns.includes(column)) {
+        errors.push({ row: 0, message: `${field} column "${column}" not found` })
+      }
+    }
+    if (errors.length > 0) return { mentions, errors }
+
+    if (parsed.rows.length > this.MAX_ROWS) {
+      return { mentions, errors: [{ row: 0, message: `Files are limited to ${this.MAX_ROWS} rows` }] }
+    }
+
+    parsed.rows.forEach((row, index) => {
+      const rowNumber = parsed.rowNumbers[index]
+      const text = row[mapping.text]?.trim() ?? ""
+      if (!text) return
+
+      let created = new Date().toISOString()
+      const rawDate = mapping.date ? row[mapping.date]?.trim() : ""
+      if (rawDate) {
+        const parsedDate = this.parseDate(rawDate)
+        if (!parsedDate) {
+          errors.push({ row: rowNumber, message: `Invalid date "${rawDate}"` })
+          return
+        }
+        created = parsedDate.toISOString()
+      }
+
+      const url = mapping.url ? (row[mapping.url]?.trim() ?? "") : ""
+      if (url && !/^https?:\/\//i.test(url)) {
+        errors.push({ row: rowNumber, message: `Invalid URL "${url}"` })
+        return
+      }
+
+      mentions.push({
+        id: `upload-${rowNumber}`,
+        source: "upload",
+        kind: "post",
+        text,
+        channel: (mapping.channel && row[mapping.channel]?.trim()) || "Upload",
+        author: (mapping.author && row[mapping.author]?.trim()) || "anonymous",
+        url,
+        created,
+        engagement: 0,
+      })
+    })
+
+    return { mentions, errors }
+  }
+
+  /**
+   * Accepts ISO dates, anything Date can parse, and Unix timestamps in seconds or milliseconds
+   */
+  private static parseDate(value: string): Date | null {
+    if (/^\d{9,13}$/.test(value)) {
+      const number = Number(value)
+      return new Date(value.length <= 10 ? number * 1000 : number)
+    }
+
+    const date = new Date(value)
+    return Number.isNaN(date.getTime()) ? null : date
+  }
+
+  private static parseJsonl(content: string): ParsedFeedback {
+    const columns = new Set<string>()
+    const rows: Array<Record<string, string>> = []
+    const rowNumbers: number[] = []
+
+    content.split(/\r?\n/).forEach((line, index) => {
+      if (!line.trim()) return
+
+      let value: unknown
+      try {
+        value = JSON.parse(line)
+      } catch {
+        throw new Error(`Line ${index + 1} is not valid JSON`)
+      }
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        throw new Error(`Line ${index + 1} is not a JSON object`)
+      }
+
+      const row: Record<string, string> = {}
+      for (const [key, field] of Object.entries(value)) {
+        columns.add(key)
+        row[key] = field === null || field === undefined ? "" : typeof field === "string" ? field : JSON.stringify(field)
+      }
+      rows.push(row)
+      rowNumbers.push(index + 1)
+    })
+
+    return { columns: Array.from(columns), rows, rowNumbers }
+  }
+
+  /**
+   * RFC 4180 CSV: quoted fields may contain commas, doubled quotes and newlines
+   */
+  private static parseCsv(content: string): ParsedFeedback {
+    const records: string[][] = []
+    let record: string[] = []
+    let field = ""
+    let inQuotes = false
+
+    const text = content.replace(/^\uFEFF/, "")
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"'
+          i++
+        } else if (char === '"') {
+          inQuotes = false
+        } else {
+          field += char
+        }
+      } else if (char === '"') {
+        inQuotes = true
+      } else if (char === ",") {
+        record.push(field)
+        field = ""
+      } else if (char === "\n" || char === "\r") {
+        if (char === "\r" && text[i + 1] === "\n") i++
+        record.push(field)
+        records.push(record)
+        record = []
+        field = ""
+      } else {
+        field += char
+      }
+    }
+    if (inQuotes) {
+      throw new Error("Unterminated quoted field")
+    }
+    if (field !== "" || record.length > 0) {
+      record.push(field)
+      records.push(record)
+    }
+
+    // Blank records are dropped, but every record keeps its spreadsheet row number (a quoted newline doesn't start a row)
+    const nonEmpty = records
+      .map((values, index) => ({ values, rowNumber: index + 1 }))
+      .filter(({ values }) => values.some((value) => value.trim() !== ""))
+    if (nonEmpty.length === 0) {
+      return { columns: [], rows: [], rowNumbers: [] }
+    }
+
+    const [header, ...body] = nonEmpty
+    const columns = header.values.map((name) => name.trim())
+    const rows = body.map(({ values }) => Object.fromEntries(columns.map((name, i) => [name, values[i] ?? ""])))
+
+    return { columns, rows, rowNumbers: body.map(({ rowNumber }) => rowNumber) }
+  }
+}
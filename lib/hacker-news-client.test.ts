@@ -0,0 +1,96 @@
+import { readFile } from "node:fs/promises"
+import path from "node:path"
+import { describe, expect, it } from "vitest"
+import { HackerNewsClient } from "./hacker-news-client"
+
+const BASE_URL = "https://hn.test/api/v1"
+const FIXTURES = path.join(__dirname, "..", "fixtures", "hacker-news")
+
+/**
+ * Serves the recorded search and item responses, recording every requested URL
+ */
+function fixtureFetcher() {
+  const requests: URL[] = []
+  const fetcher = (async (input: string | URL | Request) => {
+    const url = new URL(String(input))
+    requests.push(url)
+
+    const route = url.pathname.replace("/api/v1/", "")
+    const file = route === "search" ? "search.json" : route.startsWith("items/") ? `item-${route.slice(6)}.json` : null
+    if (!file) return new Response("Not found", { status: 404 })
+
+    return new Response(await readFile(path.join(FIXTURES, file), "utf8"), {
+      headers: { "Content-Type": "application/json" },
+    })
+  }) as typeof fetch
+
+  return { fetcher, requests }
+}
+
+describe("HackerNewsClient", () => {
+  it("keeps only search hits that name the company", async () => {
+    const { fetcher, requests } = fixtureFetcher()
+    const client = new HackerNewsClient(BASE_URL, fetcher)
+
+    const mentions = await client.search("hosting", { company: "Vercel", limit: 10 })
+
+    expect(requests[0].searchParams.get("query")).toBe("Vercel hosting")
+    expect(requests[0].searchParams.get("hitsPerPage")).toBe("20")
+    expect(mentions.map((m) => m.id)).toEqual(["41200001", "41200057"])
+
+    const [story, comment] = mentions
+    expect(story).toMatchObject({
+      kind: "post",
+      channel: "Ask HN",
+      text: "Ask HN: Anyone moved off Vercel for hosting Next.js apps? We've been on Vercel for two years. The DX is great but the bill keeps climbing.\n\nCurious what others did.",
+      conversationRef: "41200001",
+      threadId: "41200001",
+      parentId: undefined,
+      engagement: 184,
+    })
+    expect(comment).toMatchObject({
+      kind: "comment",
+      title: "Show HN: Self-hosted preview environments",
+      conversationRef: undefined,
+      threadId: "41199800",
+      parentId: "41199800",
+      depth: undefined,
+    })
+  })
+
+  it("flattens the comment tree with parents, depth and reply counts", async () => {
+    const { fetcher, requests } = fixtureFetcher()
+    const client = new HackerNewsClient(BASE_URL, fetcher)
+    const [story] = await client.search("hosting", { company: "Vercel" })
+
+    const comments = await client.fetchConversation(story)
+
+    expect(requests[1].pathname).toBe("/api/v1/items/41200001")
+    expect(
+      comments.map(({ id, parentId, depth, replyCount, threadId }) => ({ id, parentId, depth, replyCount, threadId })),
+    ).toEqual([
+      { id: "41200010", parentId: "41200001", depth: 0, replyCount: 1, threadId: "41200001" },
+      { id: "41200021", parentId: "41200010", depth: 1, replyCount: 0, threadId: "41200001" },
+      // The deleted comment 41200015 is dropped, but its reply still points at it
+      { id: "41200030", parentId: "41200015", depth: 1, replyCount: 0, threadId: "41200001" },
+    ])
+    expect(comments[2].text).toBe("Support from Vercel was slow & unhelpful when we hit function timeouts.")
+    expect(comments.every((c) => c.title === story.title && c.channel === "Ask HN")).toBe(true)
+  })
+
+  it("trims the flattened conversation to the limit", async () => {
+    const { fetcher } = fixtureFetcher()
+    const client = new HackerNewsClient(BASE_URL, fetcher)
+    const [story] = await client.search("hosting", { company: "Vercel" })
+
+    const comments = await client.fetchConversation(story, { limit: 2 })
+
+    expect(comments.map((c) => c.id)).toEqual(["41200010", "41200021"])
+  })
+
+  it("returns nothing when the API fails", async () => {
+    const client = new HackerNewsClient(BASE_URL, (async () => new Response("", { status: 503 })) as typeof fetch)
+
+    expect(await client.search("hosting", { company: "Vercel" })).toEqual([])
+  })
+})
@@ -0,0 +1,191 @@
+// Hacker News Client
+// Searches stories and comments through the Algolia Hacker News API
+
+import { TIMEFRAME_SECONDS } from "./analysis-parameters"
+import { CompanyMatcher } from "./company-matcher"
+import type { ConversationOptions, MentionSource, SourceSearchOptions } from "./mention-source"
+import type { HackerNewsHit, HackerNewsItem, HackerNewsSearchResponse, SourceMention } from "./types"
+
+export class HackerNewsClient implements MentionSource {
+  readonly id = "hackernews" as const
+  readonly label = "Hacker News"
+
+  /**
+   * Both the API base URL and fetch can be swapped, e.g. to serve recorded fixtures
+   */
+  constructor(
+    private baseUrl = process.env.HN_API_URL || "https://hn.algolia.com/api/v1",
+    private fetcher: typeof fetch = fetch,
+  ) {}
+
+  /**
+   * Searches stories and comments that mention the query
+   */
+  async search(query: string, options: SourceSearchOptions = {}): Promise<SourceMention[]> {
+    const { limit = 20, timeframe = "week", company, profile, signal } = options
+
+    try {
+      console.log("[v0] Fetching Hacker News items for:", query)
+
+      const matcher = company ? new CompanyMatcher(company, profile) : null
+
+      let searchQuery = query
+      if (company && !matcher?.mentions(query)) {
+        searchQuery = `${company} ${query}`
+      }
+
+      const params = new URLSearchParams({
+        query: searchQuery,
+        tags: "(story,comment)",
+        hitsPerPage: String(limit * 2),
+      })
+      if (TIMEFRAME_SECONDS[timeframe]) {
+        const since = Math.floor(Date.now() / 1000) - TIMEFRAME_SECONDS[timeframe]
+        params.set("numericFilters", `created_at_i>${since}`)
+      }
+
+      const response = await this.fetcher(`${this.baseUrl}/search?${params}`, { signal })
+      if (!response.ok) {
+        console.log("[v0] Hacker News API returned status:", response.status)
+        return []
+      }
+
+      const data: HackerNewsSearchResponse = await response.json()
+      if (!Array.isArray(data?.hits)) {
+        console.log("[v0] Invalid Hacker News API response structure")
+        return []
+      }
+
+      let mentions = data.hits.map((hit) => this.toMention(hit)).filter((m) => m.text.length > 0)
+
+      // Algolia matches loosely, so keep only items that name the company (or an alias) as a whole word
+      if (matcher) {
+        mentions = mentions.filter((m) => matcher.matches(`${m.title ?? ""} ${m.text}`))
+      }
+
+      mentions = mentions.slice(0, limit)
+      console.log("[v0] Found Hacker News items:", mentions.length)
+
+      return mentions
+    } catch (error) {
+      if (signal?.aborted) throw error
+      console.error("[v0] Hacker News fetch error:", error)
+      return []
+    }
+  }
+
+  /**
+   * Loads the full comment tree under a story
+   */
+  async fetchConversation(post: SourceMention, options: ConversationOptions = {}): Promise<SourceMention[]> {
+    const { signal, limit } = options
+    if (!post.conversationRef) return []
+
+    try {
+      const response = await this.fetcher(`${this.baseUrl}/items/${post.conversationRef}`, { signal })
+      if (!response.ok) {
+        return []
+      }
+
+      const item: HackerNewsItem = await response.json()
+      // The item endpoint always returns the whole tree, so the limit only trims what is kept
+      return this.flattenComments(item.children ?? [], post, post.id, 0).slice(0, limit)
+    } catch (error) {
+      if (signal?.aborted) throw error
+      console.error("[v0] Error fetching Hacker News comments:", error)
+      return []
+    }
+  }
+
+  /**
+   * Converts a search hit (story or comment) to a source-agnostic mention
+   */
+  private toMention(hit: HackerNewsHit): SourceMention {
+    const isStory = hit._tags?.includes("story") ?? false
+    const storyId = isStory ? hit.objectID : String(hit.story_id ?? hit.objectID)
+    const title = hit.title ?? hit.story_title ?? undefined
+    const body = HackerNewsClient.htmlToText(hit.comment_text ?? hit.story_text ?? "")
+
+    return {
+      id: hit.objectID,
+      source: this.id,
+      kind: isStory ? "post" : "comment",
+      text: isStory ? `${title ?? ""} ${body}`.trim() : body,
+      title,
+      channel: HackerNewsClient.channelFor(hit._tags ?? []),
+      author: hit.author,
+      url: `https://news.ycombinator.com/item?id=${isStory ? storyId : hit.objectID}`,
+      created: new Date(hit.created_at_i * 1000).toISOString(),
+      engagement: hit.points ?? 0,
+      // Only stories are worth loading a conversation for; comment hits are already leaves
+      conversationRef: isStory ? storyId : undefined,
+      threadId: storyId,
+      parentId: isStory ? undefined : String(hit.parent_id ?? storyId),
+      // Search hits only say whether a comment replies to the story directly
+      depth: !isStory && String(hit.parent_id) === storyId ? 0 : undefined,
+      replyCount: isStory ? (hit.num_comments ?? undefined) : undefined,
+    }
+  }
+
+  /**
+   * Flattens the nested comment tree into a single array
+   */
+  private flattenComments(
+    children: HackerNewsItem[],
+    post: SourceMention,
+    parentId: string,
+    depth: number,
+  ): SourceMention[] {
+    const comments: SourceMention[] = []
+
+    for (const child of children) {
+      if (child.type === "comment" && child.text && child.author) {
+        comments.push({
+          id: String(child.id),
+          source: this.id,
+          kind: "comment",
+          text: HackerNewsClient.htmlToText(child.text),
+          title: post.title,
+          channel: post.channel,
+          author: child.author,
+          url: `https://news.ycombinator.com/item?id=${child.id}`,
+          created: new Date(child.created_at_i * 1000).toISOString(),
+          engagement: child.points ?? 0,
+          threadId: post.id,
+          parentId,
+          depth,
+          replyCount: child.children?.filter((reply) => reply.type === "comment").length ?? 0,
+        })
+      }
+
+      // Deleted comments still carry replies
+      if (child.children?.length) {
+        comments.push(...this.flattenComments(child.children, post, String(child.id), depth + 1))
+      }
+    }
+
+    return comments
+  }
+
+  private static channelFor(tags: string[]): string {
+    if (tags.includes("ask_hn")) return "Ask HN"
+    if (tags.includes("show_hn")) return "Show HN"
+    return "Hacker News"
+  }
+
+  /**
+   * Strips the small HTML subset Hacker News uses in comment and story text
+   */
+  static htmlToText(html: string): string {
+    return html
+      .replace(/<p>/gi, "\n\n")
+      .replace(/<[^>]+>/g, "")
+      .replace(/&#x27;/g, "'")
+      .replace(/&#x2F;/g, "/")
+      .replace(/&quot;/g, '"')
+      .replace(/&gt;/g, ">")
+      .replace(/&lt;/g, "<")
+      .replace(/&amp;/g, "&")
+      .trim()
+  }
+}
@@ -0,0 +1,43 @@
+// JSON File Store
+// Small helpers for the server-side stores kept under .data/
+
+import { promises as fs } from "fs"
+import path from "path"
+
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), ".data")
+
+/**
+ * Reads and parses a JSON file, returning the fallback if it does not exist yet
+ */
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    const contents = await fs.readFile(filePath, "utf8")
+    return JSON.parse(contents) as T
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback
+    throw error
+  }
+}
+
+/**
+ * Writes JSON through a temporary file so a crash never leaves a truncated file behind
+ */
+export async function writeJsonFile(filePath: string, value: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  const tempPath = `${filePath}.tmp`
+  await fs.writeFile(tempPath, JSON.stringify(value))
+  await fs.rename(tempPath, filePath)
+}
+
+/**
+ * Runs async tasks one at a time in the order they were added
+ */
+export class SerialQueue {
+  private tail: Promise<unknown> = Promise.resolve()
+
+  enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(task)
+    this.tail = result.catch(() => {})
+    return result
+  }
+}
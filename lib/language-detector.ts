@@ -0,0 +1,81 @@
+// Language Detector
+// Guesses the language of a mention from its script and common function words, without any API calls
+
+import type { LanguageBreakdown, MentionData } from "./types"
+
+// Languages written in their own script are recognized from the characters alone
+const SCRIPTS: Array<{ language: string; pattern: RegExp; minShare: number }> = [
+  // Japanese mixes kana with Chinese characters, so a little kana is enough to tell it from Chinese
+  { language: "ja", pattern: /[\u3040-\u30ff]/g, minShare: 0.1 },
+  { language: "ko", pattern: /[\uac00-\ud7af]/g, minShare: 0.3 },
+  { language: "zh", pattern: /[\u4e00-\u9fff]/g, minShare: 0.3 },
+  { language: "ru", pattern: /[\u0400-\u04ff]/g, minShare: 0.3 },
+  { language: "ar", pattern: /[\u0600-\u06ff]/g, minShare: 0.3 },
+  { language: "he", pattern: /[\u0590-\u05ff]/g, minShare: 0.3 },
+  { language: "el", pattern: /[\u0370-\u03ff]/g, minShare: 0.3 },
+  { language: "hi", pattern: /[\u0900-\u097f]/g, minShare: 0.3 },
+  { language: "th", pattern: /[\u0e00-\u0e7f]/g, minShare: 0.3 },
+]
+
+// Frequent words that are rare in the other listed languages
+const STOPWORDS: Record<string, string[]> = {
+  en: ["the", "and", "is", "it", "to", "of", "that", "this", "was", "with", "for", "my", "have", "not", "you", "but", "they", "are"],
+  es: ["el", "la", "los", "las", "que", "es", "y", "en", "un", "una", "por", "con", "para", "pero", "muy", "mi", "lo", "del", "está", "como"],
+  de: ["der", "die", "das", "und", "ist", "nicht", "ich", "ein", "eine", "mit", "auf", "für", "aber", "sehr", "mein", "es", "zu", "den", "auch", "wie"],
+  fr: ["le", "la", "les", "et", "est", "un", "une", "des", "je", "pas", "pour", "avec", "mais", "très", "mon", "que", "du", "ce", "c'est", "sur"],
+  pt: ["o", "a", "os", "as", "que", "é", "e", "um", "uma", "não", "com", "para", "mas", "muito", "meu", "do", "da", "em", "isso", "está"],
+  it: ["il", "lo", "la", "gli", "che", "è", "e", "un", "una", "non", "per", "con", "ma", "molto", "mio", "del", "della", "sono", "questo", "anche"],
+  nl: ["de", "het", "een", "en", "is", "niet", "ik", "met", "voor", "maar", "heel", "mijn", "van", "dat", "op", "zijn", "ook", "wel", "te", "dit"],
+}
+
+export class LanguageDetector {
+  // Below this many matched function words the guess is too weak to act on
+  private static MIN_STOPWORD_HITS = 2
+
+  /**
+   * Returns an ISO 639-1 code such as "en" or "de", or "und" when the language can't be told
+   */
+  static detect(text: string): string {
+    const letters = text.replace(/[\s\d\p{P}\p{S}]/gu, "")
+    if (letters.length === 0) return "und"
+
+    for (const { language, pattern, minShare } of SCRIPTS) {
+      const matches = text.match(pattern)?.length ?? 0
+      if (matches / letters.length >= minShare) return language
+    }
+
+    const words = text.toLowerCase().match(/[\p{L}']+/gu) ?? []
+    let best = "und"
+    let bestHits = 0
+    for (const [language, stopwords] of Object.entries(STOPWORDS)) {
+      const set = new Set(stopwords)
+      const hits = words.filter((word) => set.has(word)).length
+      if (hits > bestHits) {
+        best = language
+        bestHits = hits
+      }
+    }
+
+    return bestHits >= this.MIN_STOPWORD_HITS ? best : "und"
+  }
+
+  /**
+   * Counts mentions and averages their scores per language, most common first
+   */
+  static breakdown(mentions: MentionData[]): LanguageBreakdown[] {
+    const byLanguage = new Map<string, { count: number; total: number }>()
+    for (const mention of mentions) {
+      const language = mention.language ?? "und"
+      const entry = byLanguage.get(language) ?? { count: 0, total: 0 }
+      entry.count++
+      entry.total += mention.score
+      byLanguage.set(language, entry)
+    }
+
+    return Array.from(byLanguage, ([language, { count, total }]) => ({
+      language,
+      count,
+      averageScore: total / count,
+    })).sort((a, b) => b.count - a.count)
+  }
+}
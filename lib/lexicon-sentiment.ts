@@ -0,0 +1,150 @@
+// Lexicon Sentiment Scorer
+// Rule-based English sentiment scoring in the style of VADER; needs no network or API key
+
+import type { SentimentResult } from "./types"
+
+// Word valences from -4 (most negative) to +4 (most positive)
+const LEXICON: Record<string, number> = {
+  // Positive
+  love: 3.2, loved: 2.9, loves: 2.7, loving: 2.9, lovely: 2.8, like: 1.5, liked: 1.8, likes: 1.8,
+  great: 3.1, awesome: 3.1, amazing: 2.8, excellent: 3.2, fantastic: 2.6, wonderful: 2.7, incredible: 2.4,
+  outstanding: 3.0, brilliant: 2.8, superb: 3.1, perfect: 2.7, perfectly: 2.6, best: 3.2, better: 1.9,
+  good: 1.9, nice: 1.8, fine: 0.8, decent: 1.4, solid: 1.5, happy: 2.7, glad: 2.0, pleased: 1.9,
+  satisfied: 1.8, impressed: 2.1, impressive: 2.3, recommend: 1.5, recommended: 1.8, reliable: 1.9,
+  fast: 1.1, easy: 1.9, smooth: 1.4, helpful: 1.8, friendly: 2.2, beautiful: 2.9, enjoy: 2.2, enjoyed: 2.3,
+  fun: 2.3, favorite: 2.0, favourite: 2.0, thanks: 1.9, thank: 1.5, thankful: 2.7, worth: 0.9, win: 2.8,
+  wins: 2.7, improved: 2.1, improvement: 2.0, fixed: 1.1, work: 0.8, works: 1.1, worked: 1.0, helped: 1.4,
+  cool: 1.3, exciting: 2.2, excited: 1.4, delighted: 2.8, flawless: 2.3, affordable: 1.7, quality: 0.8,
+  genius: 2.5, lol: 1.8,
+  // Negative
+  hate: -2.7, hated: -3.2, hates: -1.9, terrible: -2.1, awful: -2.0, horrible: -2.5, horrendous: -2.9,
+  worst: -3.1, worse: -2.1, bad: -2.5, poor: -2.1, disappointed: -1.9, disappointing: -2.2,
+  disappointment: -2.3, frustrated: -2.4, frustrating: -1.9, frustration: -2.1, annoying: -1.7,
+  annoyed: -1.6, angry: -2.3, mad: -2.2, upset: -1.6, sad: -2.1, unhappy: -1.8, sucks: -1.5, suck: -1.9,
+  sucked: -2.0, waste: -1.8, wasted: -2.2, regret: -1.8, regrets: -1.5, avoid: -1.2, pathetic: -2.2,
+  useless: -1.8, garbage: -2.1, trash: -1.5, junk: -1.4, broken: -2.1, broke: -1.8, crash: -1.7,
+  crashes: -1.7, crashing: -1.7, bug: -1.0, buggy: -1.6, bugs: -1.0, slow: -1.2, expensive: -0.9,
+  overpriced: -1.7, scam: -2.6, ripoff: -2.4, fraud: -2.8, rude: -2.0, fail: -2.5, failed: -2.3,
+  fails: -1.8, failure: -2.3, problem: -1.7, problems: -1.7, issue: -0.8, issues: -0.9, wrong: -2.1,
+  unreliable: -1.8, unusable: -2.2, lost: -1.3, ridiculous: -1.9, nightmare: -2.9, disaster: -3.1,
+  dangerous: -2.1, ugly: -2.3, stupid: -2.4, dumb: -2.3, boring: -1.3, confusing: -0.9, refund: -0.4,
+  cancel: -0.6, cancelled: -1.0, canceled: -1.0, ignored: -1.0, worthless: -1.9, lies: -1.8, lied: -1.6,
+  misleading: -1.7, meh: -0.3, ugh: -1.8, wtf: -2.8, disgusting: -2.4, unacceptable: -2.0,
+}
+
+// Words that strengthen (positive) or soften (negative) the sentiment word that follows them
+const BOOSTERS: Record<string, number> = {
+  absolutely: 0.293, completely: 0.293, extremely: 0.293, incredibly: 0.293, really: 0.293, so: 0.293,
+  super: 0.293, totally: 0.293, very: 0.293, truly: 0.293, highly: 0.293, most: 0.293, more: 0.293,
+  especially: 0.293, seriously: 0.293, utterly: 0.293, insanely: 0.293, ridiculously: 0.293,
+  slightly: -0.293, somewhat: -0.293, barely: -0.293, hardly: -0.293, kinda: -0.293, little: -0.293,
+  marginally: -0.293, occasionally: -0.293, partly: -0.293, less: -0.293, fairly: -0.293,
+}
+
+const NEGATIONS = new Set([
+  "not", "no", "never", "none", "nobody", "nothing", "neither", "nor", "nowhere", "cannot", "without",
+  "aint", "dont", "doesnt", "didnt", "isnt", "wasnt", "arent", "werent", "wont", "wouldnt", "cant",
+  "couldnt", "shouldnt", "hasnt", "havent", "hadnt", "neednt",
+])
+
+// Emoji and emoticons carry sentiment in short comments
+const EMOJI: Record<string, number> = {
+  "😀": 2.0, "😃": 2.0, "😄": 2.2, "😁": 2.0, "😊": 2.2, "🙂": 1.2, "😍": 2.8, "🥰": 2.8, "😎": 1.5,
+  "👍": 1.8, "👏": 1.8, "🙌": 2.0, "❤": 2.8, "🔥": 1.5, "🎉": 2.2, "💯": 2.0, "⭐": 1.5,
+  "😂": 1.2, "🤣": 1.2, "😢": -2.0, "😭": -2.0, "😞": -2.0, "😔": -1.8, "😠": -2.6, "😡": -2.8,
+  "🤬": -3.0, "👎": -2.0, "💩": -2.2, "🙄": -1.4, "😤": -1.8, "😩": -2.0, "🤮": -2.8, "😒": -1.6,
+  ":)": 2.0, ":-)": 2.0, ":D": 2.3, ":-D": 2.3, "<3": 1.9, ";)": 1.3, ":(": -1.9, ":-(": -1.9,
+  ":'(": -2.2, ">:(": -2.4, ":/": -1.1, ":-/": -1.1,
+}
+
+const EMOJI_BY_LENGTH = Object.entries(EMOJI).sort(([a], [b]) => b.length - a.length)
+
+export class LexiconSentimentScorer {
+  private static ALL_CAPS_INCREMENT = 0.733
+  private static NEGATION_SCALAR = -0.74
+  // Normalizes the summed valences into -1..1; VADER's alpha
+  private static NORMALIZATION_ALPHA = 15
+
+  /**
+   * Scores text from -100 to 100 using word valences, negation, intensifiers, emoji and punctuation
+   * Only English words are in the lexicon; text in other languages scores neutral unless it has emoji
+   */
+  static score(text: string): SentimentResult {
+    // Links would otherwise read as ":/" emoticons
+    const cleaned = text.replace(/https?:\/\/\S+/g, " ")
+    const words = cleaned
+      .split(/\s+/)
+      .map((token) => token.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}'’]+$/gu, ""))
+      .filter(Boolean)
+    const lowerWords = words.map((word) => word.toLowerCase().replace(/['’]/g, ""))
+
+    // Shouting a word only emphasizes it when the rest of the text isn't shouted too
+    const isShouted = (word: string) => word.length > 1 && /\p{L}/u.test(word) && word === word.toUpperCase()
+    const capsEmphasis = words.some(isShouted) && !words.filter((w) => /\p{L}/u.test(w)).every(isShouted)
+
+    const valences: number[] = []
+    lowerWords.forEach((word, i) => {
+      let valence = LEXICON[word] ?? 0
+      if (valence === 0) {
+        valences.push(0)
+        return
+      }
+      const sign = Math.sign(valence)
+
+      if (capsEmphasis && isShouted(words[i])) {
+        valence += sign * this.ALL_CAPS_INCREMENT
+      }
+
+      // Intensifiers up to three words back, fading with distance
+      for (let back = 1; back <= 3 && i - back >= 0; back++) {
+        const boost = BOOSTERS[lowerWords[i - back]]
+        if (boost) valence += sign * boost * [1, 0.95, 0.9][back - 1]
+      }
+
+      // "not good", "never worked", "doesn't help" and any other "n't" up to three words back
+      const negated = words
+        .slice(Math.max(0, i - 3), i)
+        .some((previous) => NEGATIONS.has(previous.toLowerCase().replace(/['’]/g, "")) || /n['’]t$/i.test(previous))
+      if (negated) {
+        valence *= this.NEGATION_SCALAR
+      }
+
+      valences.push(valence)
+    })
+
+    // "but" shifts the weight to the clause after it: "great camera but the battery is awful"
+    const butIndex = lowerWords.indexOf("but")
+    if (butIndex !== -1) {
+      valences.forEach((valence, i) => {
+        valences[i] = valence * (i < butIndex ? 0.5 : i > butIndex ? 1.5 : 1)
+      })
+    }
+
+    // Longest symbols first, so ">:(" isn't also counted as ":("
+    let remaining = cleaned
+    for (const [symbol, valence] of EMOJI_BY_LENGTH) {
+      const parts = remaining.split(symbol)
+      for (let n = 1; n < parts.length; n++) valences.push(valence)
+      remaining = parts.join(" ")
+    }
+
+    let sum = valences.reduce((total, valence) => total + valence, 0)
+    if (sum !== 0) {
+      sum += Math.sign(sum) * this.punctuationEmphasis(text)
+    }
+
+    const compound = sum / Math.sqrt(sum * sum + this.NORMALIZATION_ALPHA)
+    const score = Math.round(compound * 100)
+    const label = score >= 10 ? "positive" : score <= -10 ? "negative" : "neutral"
+
+    return { label, score, method: "lexicon" }
+  }
+
+  // Exclamation marks and repeated question marks amplify whatever the text already says
+  private static punctuationEmphasis(text: string): number {
+    const exclamations = Math.min((text.match(/!/g) ?? []).length, 4) * 0.292
+    const questions = (text.match(/\?/g) ?? []).length
+    const questionEmphasis = questions > 3 ? 0.96 : questions > 1 ? questions * 0.18 : 0
+    return exclamations + questionEmphasis
+  }
+}
@@ -0,0 +1,72 @@
+// LLM Response Schemas
+// The JSON shape each prompt asks the model for, checked before any response is used
+
+import { z } from "zod"
+
+const text = z.string().trim().min(1)
+
+export const sentimentResponseSchema = z.object({
+  sentiment: z.enum(["positive", "neutral", "negative"]),
+  score: z.number().min(-100).max(100),
+})
+
+/**
+ * Relevance answers may only name IDs from the batch they were asked about
+ */
+export const relevanceResponseSchema = (ids: string[]) =>
+  z.object({
+    relevant_ids: z.array(z.string().refine((id) => ids.includes(id), (id) => ({ message: `Unknown ID "${id}"` }))),
+  })
+
+// Search topics and topic clusters
+export const topicListResponseSchema = z.object({
+  topics: z.array(text).min(1, "List at least one topic"),
+})
+
+/**
+ * The assigned topic must be one of the listed ones, which can't be empty; casing and surrounding quotes are forgiven
+ */
+export const topicAssignmentResponseSchema = (topics: string[]) =>
+  z.object({
+    topic: z.preprocess((value) => {
+      if (typeof value !== "string") return value
+      const normalized = value.trim().replace(/^["']|["']$/g, "").toLowerCase()
+      return topics.find((topic) => topic.toLowerCase() === normalized) ?? value
+    }, z.enum(topics as [string, ...string[]])),
+  })
+
+export const recommendationResponseSchema = z.object({
+  issue: text,
+  impact: text,
+  postSuggestions: z
+    .array(
+      z.object({
+        id: text,
+        title: text,
+        description: text,
+        angle: text,
+      }),
+    )
+    .min(1, "Suggest at least one post"),
+})
+
+/**
+ * Posts over the platform's character limit are sent back for a shorter version
+ */
+export const socialPostResponseSchema = (maxChars: number) =>
+  z.object({
+    content: text.max(maxChars, `Post must be at most ${maxChars} characters`),
+  })
+
+export const summaryResponseSchema = z.object({
+  executive_summary: text,
+  key_themes: z
+    .array(
+      z.object({
+        theme: text,
+        sentiment: z.enum(["positive", "neutral", "negative"]),
+        description: text,
+      }),
+    )
+    .min(1, "List at least one theme"),
+})
@@ -0,0 +1,35 @@
+// Mention Source
+// Common interface for every place mentions can be collected from
+
+import type { ScheduledRequestOptions } from "./reddit-request-scheduler"
+import type { CompanyProfile, MentionSourceId, SourceMention } from "./types"
+
+export interface SourceSearchOptions extends ScheduledRequestOptions {
+  limit?: number
+  timeframe?: string
+  company?: string
+  // Aliases and disambiguation patterns used to keep only results about the company
+  profile?: CompanyProfile | null
+}
+
+export interface ConversationOptions extends ScheduledRequestOptions {
+  // Stop collecting once this many replies have been loaded
+  limit?: number
+}
+
+export interface MentionSource {
+  id: MentionSourceId
+  label: string
+  // Sources that return the same items for every topic (e.g. registered feeds) are searched once per analysis
+  searchOnce?: boolean
+
+  /**
+   * Finds top-level posts matching a query
+   */
+  search(query: string, options?: SourceSearchOptions): Promise<SourceMention[]>
+
+  /**
+   * Loads the replies to a post returned by search
+   */
+  fetchConversation(post: SourceMention, options?: ConversationOptions): Promise<SourceMention[]>
+}
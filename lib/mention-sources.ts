@@ -0,0 +1,21 @@
+// Mention Sources
+// Builds the source adapters selected for an analysis
+
+import { FeedClient } from "./feed-client"
+import { HackerNewsClient } from "./hacker-news-client"
+import type { MentionSource } from "./mention-source"
+import { RedditClient } from "./reddit-client"
+import type { SearchSourceId } from "./types"
+
+const SOURCE_FACTORIES: Record<SearchSourceId, () => MentionSource> = {
+  reddit: () => new RedditClient(),
+  hackernews: () => new HackerNewsClient(),
+  feeds: () => new FeedClient(),
+}
+
+/**
+ * Creates one adapter per selected source id
+ */
+export function createMentionSources(ids: SearchSourceId[]): MentionSource[] {
+  return ids.map((id) => SOURCE_FACTORIES[id]())
+}
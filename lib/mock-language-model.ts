@@ -0,0 +1,220 @@
+// Mock Language Model
+// Answers every prompt the app sends with deterministic, well-formed responses, so it runs without an API key
+
+import type { LanguageModel } from "ai"
+
+type LanguageModelV2 = Exclude<LanguageModel, string>
+type CallOptions = Parameters<LanguageModelV2["doGenerate"]>[0]
+
+interface PromptResponder {
+  name: string
+  matches: (prompt: string) => boolean
+  respond: (prompt: string) => string
+}
+
+const POSITIVE_WORDS = ["love", "great", "awesome", "amazing", "excellent", "fantastic", "good", "best", "happy", "recommend", "impressed", "perfect"]
+const NEGATIVE_WORDS = ["hate", "terrible", "awful", "horrible", "worst", "bad", "disappoint", "frustrat", "annoying", "poor", "sucks", "waste", "broken", "useless"]
+
+const MOCK_TOPICS = ["Product Quality", "Customer Service", "Pricing", "Reliability", "User Experience"]
+const SEARCH_ASPECTS = ["reviews", "customer service", "pricing complaints", "reliability issues", "vs competitors", "app experience", "support experiences", "quality problems"]
+
+// Topic keywords used to assign mentions; anything else is spread across topics by hash
+const TOPIC_KEYWORDS: Record<string, string[]> = {
+  "Customer Service": ["support", "service", "help", "agent", "refund"],
+  Pricing: ["price", "cost", "expensive", "cheap", "subscription", "$"],
+  Reliability: ["crash", "broken", "bug", "outage", "down", "fail"],
+  "User Experience": ["app", "interface", "ui", "design", "easy"],
+}
+
+export class MockLanguageModel implements LanguageModelV2 {
+  readonly specificationVersion = "v2" as const
+  readonly provider = "mock"
+  readonly supportedUrls = {}
+
+  private responders: PromptResponder[] = [
+    { name: "sentiment", matches: (p) => p.includes("Analyze the sentiment of this text"), respond: (p) => this.sentiment(p) },
+    { name: "relevance", matches: (p) => p.includes("STRICT filter for sentiment analysis"), respond: (p) => this.relevance(p) },
+    { name: "search topics", matches: (p) => /Generate \d+ relevant search topics/.test(p), respond: (p) => this.searchTopics(p) },
+    { name: "topic identification", matches: (p) => p.includes("identify 5-8 main topics"), respond: () => JSON.stringify({ topics: MOCK_TOPICS }) },
+    { name: "topic assignment", matches: (p) => p.includes("which topic does it most closely relate to"), respond: (p) => this.assignTopic(p) },
+    { name: "topic description", matches: (p) => p.includes("Summarize in ONE brief sentence"), respond: (p) => this.topicDescription(p) },
+    { name: "recommendation", matches: (p) => p.includes("You are a social media strategist"), respond: (p) => this.recommendation(p) },
+    { name: "executive summary", matches: (p) => p.includes("Summarize the key customer concerns"), respond: (p) => this.executiveSummary(p) },
+    { name: "social post", matches: (p) => /You are writing a \w+ post for/.test(p), respond: (p) => this.socialPost(p) },
+    { name: "summary", matches: (p) => p.includes('"executive_summary"'), respond: (p) => this.summary(p) },
+    { name: "translation", matches: (p) => p.includes("Translate this social media comment into English"), respond: (p) => this.translation(p) },
+  ]
+
+  constructor(readonly modelId = "mock") {}
+
+  async doGenerate(options: CallOptions) {
+    const prompt = MockLanguageModel.promptText(options)
+    const responder = this.responders.find((r) => r.matches(prompt))
+    if (!responder) {
+      console.log("[v0] Mock LLM received an unrecognized prompt")
+    }
+    const text = responder ? responder.respond(prompt) : "Mock response"
+
+    return {
+      content: [{ type: "text" as const, text }],
+      finishReason: "stop" as const,
+      usage: { inputTokens: Math.ceil(prompt.length / 4), outputTokens: Math.ceil(text.length / 4), totalTokens: undefined },
+      warnings: [],
+    }
+  }
+
+  async doStream(options: CallOptions) {
+    const { content, finishReason, usage } = await this.doGenerate(options)
+    const text = content[0].text
+
+    const stream = new ReadableStream({
+      start(controller) {
+        controller.enqueue({ type: "stream-start" as const, warnings: [] })
+        controller.enqueue({ type: "text-start" as const, id: "0" })
+        controller.enqueue({ type: "text-delta" as const, id: "0", delta: text })
+        controller.enqueue({ type: "text-end" as const, id: "0" })
+        controller.enqueue({ type: "finish" as const, finishReason, usage })
+        controller.close()
+      },
+    })
+    return { stream }
+  }
+
+  private sentiment(prompt: string): string {
+    const text = MockLanguageModel.after(prompt, "Text:").toLowerCase()
+    const positive = POSITIVE_WORDS.filter((word) => text.includes(word)).length
+    const negative = NEGATIVE_WORDS.filter((word) => text.includes(word)).length
+
+    // Keyword balance sets the direction; the hash spreads scores so mentions don't all tie
+    const jitter = MockLanguageModel.hash(text) % 20
+    let score = 0
+    if (positive > negative) score = Math.min(100, 30 + 15 * (positive - negative) + jitter)
+    if (negative > positive) score = Math.max(-100, -30 - 15 * (negative - positive) - jitter)
+    const sentiment = score >= 10 ? "positive" : score <= -10 ? "negative" : "neutral"
+
+    return JSON.stringify({ sentiment, score })
+  }
+
+  // The keyword pre-filter has already removed content without sentiment, so every item is kept
+  private relevance(prompt: string): string {
+    const ids = Array.from(prompt.matchAll(/^ID: (.+)$/gm), (match) => match[1].trim())
+    return JSON.stringify({ relevant_ids: ids })
+  }
+
+  private searchTopics(prompt: string): string {
+    const count = Number(prompt.match(/Generate (\d+) relevant search topics/)?.[1] ?? 5)
+    const company = MockLanguageModel.after(prompt, "Company:").split("\n")[0].trim() || "Company"
+    const topics = Array.from({ length: count }, (_, i) => `${company} ${SEARCH_ASPECTS[i % SEARCH_ASPECTS.length]}`)
+    return JSON.stringify({ topics })
+  }
+
+  private assignTopic(prompt: string): string {
+    const topics = Array.from(prompt.matchAll(/^\d+\. (.+)$/gm), (match) => match[1].trim())
+    if (topics.length === 0) return JSON.stringify({ topic: MOCK_TOPICS[0] })
+
+    const mention = MockLanguageModel.after(prompt, "Mention:").toLowerCase()
+    const byKeyword = topics.find((topic) => TOPIC_KEYWORDS[topic]?.some((keyword) => mention.includes(keyword)))
+    return JSON.stringify({ topic: byKeyword ?? topics[MockLanguageModel.hash(mention) % topics.length] })
+  }
+
+  private topicDescription(prompt: string): string {
+    const subject = prompt.match(/what customers are saying about (.+?)\.\n/)?.[1] ?? "this topic"
+    return `Customers share a mix of experiences with ${subject}.`
+  }
+
+  private recommendation(prompt: string): string {
+    const topic = prompt.match(/address customer concerns about "(.+?)"/)?.[1] ?? "this topic"
+    const slug = topic.toLowerCase().replace(/[^a-z0-9]+/g, "-")
+
+    return JSON.stringify({
+      issue: `Customers report recurring problems with ${topic}.`,
+      impact: `Unaddressed complaints about ${topic} erode trust and drive customers to competitors.`,
+      postSuggestions: [
+        {
+          id: `${slug}-1`,
+          title: `We hear you on ${topic}`,
+          description: `Acknowledge the feedback about ${topic} and explain what is being done.`,
+          angle: "acknowledge and explain",
+        },
+        {
+          id: `${slug}-2`,
+          title: `${topic}: what's next`,
+          description: `Share the roadmap for improving ${topic}.`,
+          angle: "share roadmap",
+        },
+        {
+          id: `${slug}-3`,
+          title: `Getting the most out of ${topic}`,
+          description: `Share tips that solve the most common ${topic} problems.`,
+          angle: "educate users",
+        },
+      ],
+    })
+  }
+
+  private executiveSummary(prompt: string): string {
+    const company = prompt.match(/key customer concerns for (.+?) based on/)?.[1] ?? "The company"
+    const topics = Array.from(prompt.matchAll(/^- (.+?):/gm), (match) => match[1])
+    return `${company} should focus first on ${topics.slice(0, 2).join(" and ") || "the reported issues"}. Addressing them publicly would show customers their feedback is heard.`
+  }
+
+  private socialPost(prompt: string): string {
+    const [, platform = "twitter", company = "We", topic = "your feedback"] =
+      prompt.match(/You are writing a (\w+) post for (.+?) about "(.+?)"/) ?? []
+    const limit = Number(prompt.match(/Character limit: (\d+)/)?.[1] ?? 280)
+    const hashtag = `#${company.replace(/[^A-Za-z0-9]/g, "")}`
+
+    const post = `We've been listening to your feedback about ${topic}, and we're on it. Here's what we're changing and when you'll see it. Thank you for helping us improve. ${hashtag} #CustomerFirst`
+    const content = platform === "twitter" ? post.slice(0, limit) : `${post}\n\nWhat should we tackle next? Let us know below.`
+    return JSON.stringify({ content })
+  }
+
+  private summary(prompt: string): string {
+    const count = (label: string) => Number(prompt.match(new RegExp(`${label}: (\\d+)`))?.[1] ?? 0)
+    const positive = count("Positive")
+    const negative = count("Negative")
+    const overall = positive > negative ? "positive" : negative > positive ? "negative" : "neutral"
+
+    return JSON.stringify({
+      executive_summary: `Sentiment is mostly ${overall}, with ${positive} positive and ${negative} negative mentions.`,
+      key_themes: [
+        { theme: "Product Quality", sentiment: overall, description: "Most mentions discuss how well the product works." },
+        { theme: "Customer Service", sentiment: "negative", description: "Some customers report slow support responses." },
+        { theme: "Pricing", sentiment: "neutral", description: "Opinions on value for money are split." },
+      ],
+    })
+  }
+
+  private translation(prompt: string): string {
+    const text = prompt.split("respond with ONLY the translation.")[1]?.trim() ?? ""
+    return `[Translated] ${text}`
+  }
+
+  /**
+   * Concatenates the text parts of every message in the prompt
+   */
+  private static promptText(options: CallOptions): string {
+    return options.prompt
+      .flatMap((message) =>
+        typeof message.content === "string"
+          ? [message.content]
+          : message.content.flatMap((part) => (part.type === "text" ? [part.text] : [])),
+      )
+      .join("\n")
+  }
+
+  private static after(prompt: string, marker: string): string {
+    const index = prompt.lastIndexOf(marker)
+    return index === -1 ? "" : prompt.slice(index + marker.length)
+  }
+
+  // Small stable string hash (FNV-1a), so the same prompt always gets the same answer
+  private static hash(text: string): number {
+    let hash = 0x811c9dc5
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i)
+      hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+  }
+}
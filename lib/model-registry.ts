@@ -0,0 +1,130 @@
+// Model Registry
+// Maps each LLM task in the app to a provider, model and temperature configured in one place
+
+import { createOpenAI } from "@ai-sdk/openai"
+import type { LanguageModel } from "ai"
+import { MockLanguageModel } from "./mock-language-model"
+
+export type ModelRole = "classify" | "filter" | "cluster" | "summarize" | "write" | "translate"
+
+// "openai" talks to the OpenAI Responses API; "openai-compatible" uses Chat Completions, which
+// local servers such as Ollama, llama.cpp and vLLM implement; "mock" answers offline with canned responses
+export type ModelProvider = "openai" | "openai-compatible" | "mock"
+
+export interface ModelRoleConfig {
+  provider: ModelProvider
+  model: string
+  baseURL?: string
+  apiKey?: string
+  temperature: number
+  // Whether the provider can be asked for JSON matching a schema instead of free text
+  structuredOutputs: boolean
+}
+
+export interface RoleModel {
+  model: LanguageModel
+  temperature: number
+  structuredOutputs: boolean
+}
+
+const ROLE_DEFAULTS: Record<ModelRole, { model: string; temperature: number }> = {
+  // Sentiment scoring and assigning mentions to topics
+  classify: { model: "gpt-4o-mini", temperature: 0.3 },
+  // Relevance filtering
+  filter: { model: "gpt-4o-mini", temperature: 0.3 },
+  // Search topics, topic clusters and their descriptions
+  cluster: { model: "gpt-4o-mini", temperature: 0.5 },
+  // The dashboard's AI summary
+  summarize: { model: "gpt-5", temperature: 0.5 },
+  // Recommendations and social media posts
+  write: { model: "gpt-4o-mini", temperature: 0.7 },
+  // Translating mentions for display
+  translate: { model: "gpt-4o-mini", temperature: 0.2 },
+}
+
+export class ModelRegistry {
+  private resolved = new Map<ModelRole, RoleModel>()
+
+  constructor(private env: NodeJS.ProcessEnv = process.env) {}
+
+  /**
+   * Reads the configuration for a role; LLM_<ROLE>_* variables override the shared LLM_* ones
+   */
+  config(role: ModelRole): ModelRoleConfig {
+    const read = (name: string) => {
+      const value = this.env[`LLM_${role.toUpperCase()}_${name}`] ?? this.env[`LLM_${name}`]
+      return value?.trim() || undefined
+    }
+
+    const baseURL = read("BASE_URL")?.replace(/\/+$/, "")
+    const provider = read("PROVIDER") ?? (baseURL ? "openai-compatible" : "openai")
+    if (provider !== "openai" && provider !== "openai-compatible" && provider !== "mock") {
+      throw new Error(`Unknown LLM provider "${provider}" for role ${role}`)
+    }
+
+    return {
+      provider,
+      model: read("MODEL") ?? ROLE_DEFAULTS[role].model,
+      baseURL,
+      apiKey: read("API_KEY") ?? this.env.OPENAI_API_KEY,
+      temperature: this.parseTemperature(role, read("TEMPERATURE")),
+      // Local servers differ in json_schema support, so it's opt-in for them
+      structuredOutputs: this.parseFlag(role, "STRUCTURED_OUTPUTS", read("STRUCTURED_OUTPUTS"), provider === "openai"),
+    }
+  }
+
+  /**
+   * Returns the model and temperature to use for a role, creating the provider on first use
+   */
+  get(role: ModelRole): RoleModel {
+    const cached = this.resolved.get(role)
+    if (cached) return cached
+
+    const config = this.config(role)
+    console.log(`[v0] LLM role ${role}: ${config.model} via ${config.baseURL ?? config.provider}`)
+    const roleModel = {
+      model: this.createModel(config),
+      temperature: config.temperature,
+      structuredOutputs: config.structuredOutputs,
+    }
+    this.resolved.set(role, roleModel)
+    return roleModel
+  }
+
+  private createModel(config: ModelRoleConfig): LanguageModel {
+    if (config.provider === "mock") {
+      return new MockLanguageModel(config.model)
+    }
+
+    const provider = createOpenAI({
+      // Local servers usually ignore the key, but the client refuses to send a request without one
+      apiKey: config.apiKey ?? (config.baseURL ? "not-needed" : undefined),
+      baseURL: config.baseURL,
+    })
+    return config.provider === "openai-compatible" ? provider.chat(config.model) : provider(config.model)
+  }
+
+  private parseTemperature(role: ModelRole, value: string | undefined): number {
+    if (value === undefined) return ROLE_DEFAULTS[role].temperature
+
+    const temperature = Number(value)
+    if (!Number.isFinite(temperature) || temperature < 0 || temperature > 2) {
+      console.error(`[v0] Ignoring invalid temperature "${value}" for LLM role ${role}`)
+      return ROLE_DEFAULTS[role].temperature
+    }
+    return temperature
+  }
+
+  private parseFlag(role: ModelRole, name: string, value: string | undefined, fallback: boolean): boolean {
+    if (value === undefined) return fallback
+    if (value === "true" || value === "false") return value === "true"
+
+    console.error(`[v0] Ignoring invalid ${name} value "${value}" for LLM role ${role}`)
+    return fallback
+  }
+}
+
+// One registry per server process, so each role's provider is created once
+const globalForModels = globalThis as unknown as { modelRegistry?: ModelRegistry }
+
+export const modelRegistry = globalForModels.modelRegistry ?? (globalForModels.modelRegistry = new ModelRegistry())
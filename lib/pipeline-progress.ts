@@ -0,0 +1,37 @@
+// Pipeline Progress
+// Tracks which analysis stage is running and the counts reported so far
+
+import type { PipelineCounts, PipelineEvent, PipelineStage } from "./types"
+
+export interface PipelineProgressState {
+  activeStage: PipelineStage | null
+  completed: PipelineStage[]
+  counts: PipelineCounts
+  message?: string
+}
+
+export const initialPipelineProgress: PipelineProgressState = {
+  activeStage: null,
+  completed: [],
+  counts: {},
+}
+
+/**
+ * Folds a pipeline event into the progress state
+ */
+export function applyPipelineEvent(state: PipelineProgressState, event: PipelineEvent): PipelineProgressState {
+  switch (event.type) {
+    case "stage-start":
+      return { ...state, activeStage: event.stage, counts: event.counts, message: undefined }
+    case "stage-progress":
+      return { ...state, activeStage: event.stage, counts: event.counts, message: event.message }
+    case "stage-complete":
+      return {
+        activeStage: null,
+        completed: state.completed.includes(event.stage) ? state.completed : [...state.completed, event.stage],
+        counts: event.counts,
+      }
+    default:
+      return state
+  }
+}
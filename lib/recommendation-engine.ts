@@ -1,21 +1,17 @@
 // Recommendation Engine
 // Generates actionable recommendations for addressing negative sentiment topics
 
-import { createOpenAI } from "@ai-sdk/openai"
 import { generateText } from "ai"
+import { recommendationResponseSchema } from "./llm-response-schemas"
+import { modelRegistry, type RoleModel } from "./model-registry"
+import { generateStructured, StructuredOutputError, type InvalidResponseHandler } from "./structured-output"
 import type { TopicCluster, ActionableRecommendation } from "./types"
 
 export class RecommendationEngine {
-  private model: any
-  private temperature: number
-
-  constructor(modelName = "gpt-4o-mini", temperature = 0.6) {
-    const openai = createOpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    })
-    this.model = openai(modelName)
-    this.temperature = temperature
-  }
+  constructor(
+    private llm: RoleModel = modelRegistry.get("write"),
+    private onInvalidResponse: InvalidResponseHandler = () => {},
+  ) {}
 
   /**
    * Generates actionable recommendations for topic clusters that need attention
@@ -68,7 +64,7 @@ export class RecommendationEngine {
     const negativeMentions = cluster.mentions
       .filter((m) => m.sentiment === "negative" || m.score < -10)
       .slice(0, 8)
-      .map((m) => `- "${m.text}" (score: ${m.score})`)
+      .map((m) => `- "${m.text}" (score: ${m.score}${m.depth ? ", reply to another comment" : ""})`)
       .join("\n")
 
     const prompt = `You are a social media strategist helping ${company} address customer concerns about "${cluster.topic}".
@@ -114,15 +110,14 @@ Post ideas should:
 - Vary in approach (some acknowledge issues, some educate, some share progress)`
 
     try {
-      const { text: result } = await generateText({
-        model: this.model,
+      const parsed = await generateStructured({
+        task: "recommendation",
+        llm: this.llm,
         prompt,
-        temperature: this.temperature,
+        schema: recommendationResponseSchema,
       })
 
-      console.log("[v0] Recommendation for", cluster.topic, ":", result)
-
-      const parsed = this.parseRecommendationResponse(result)
+      console.log("[v0] Recommendation for", cluster.topic, ":", parsed)
 
       return {
         topic: cluster.topic,
@@ -134,40 +129,13 @@ Post ideas should:
       }
     } catch (error) {
       console.error("[v0] Recommendation generation error for", cluster.topic, ":", error)
+      if (error instanceof StructuredOutputError) {
+        this.onInvalidResponse(error, "skipped the recommendation for the topic")
+      }
       return null
     }
   }
 
-  /**
-   * Parses the AI response into structured recommendation data
-   */
-  private parseRecommendationResponse(response: string): {
-    issue: string
-    impact: string
-    postSuggestions: Array<{
-      id: string
-      title: string
-      description: string
-      angle: string
-    }>
-  } {
-    // Try to extract JSON from response
-    const jsonMatch = response.match(/\{[\s\S]*\}/)
-    if (!jsonMatch) {
-      throw new Error("No JSON found in response")
-    }
-
-    const parsed = JSON.parse(jsonMatch[0])
-
-    return {
-      issue: parsed.issue || "Issue not identified",
-      impact: parsed.impact || "Impact unclear",
-      postSuggestions: Array.isArray(parsed.postSuggestions)
-        ? parsed.postSuggestions
-        : [],
-    }
-  }
-
   /**
    * Generates a summary of all recommendations
    */
@@ -194,9 +162,9 @@ Write a 2-3 sentence executive summary highlighting the most critical areas to a
 
     try {
       const { text: result } = await generateText({
-        model: this.model,
+        model: this.llm.model,
         prompt,
-        temperature: 0.5,
+        temperature: this.llm.temperature,
       })
 
       return result.trim()
@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { RedditTokenProvider, type RedditAuthConfig } from "./reddit-auth"
+import { RedditClient } from "./reddit-client"
+import type { RedditRequestScheduler } from "./reddit-request-scheduler"
+
+const CONFIG: RedditAuthConfig = {
+  clientId: "client-id",
+  clientSecret: "client-secret",
+  userAgent: "test:sentiment-dashboard:1.0",
+  tokenUrl: "https://reddit.test/api/v1/access_token",
+  apiUrl: "https://oauth.reddit.test",
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } })
+
+/**
+ * A token endpoint that hands out token-1, token-2, ... or answers every request with the given failure
+ */
+function tokenEndpoint(failure?: Response) {
+  const requests: RequestInit[] = []
+  const fetcher = vi.fn(async (_url: string | URL | Request, init?: RequestInit) => {
+    requests.push(init ?? {})
+    if (failure) return failure.clone()
+    return json({ access_token: `token-${requests.length}`, token_type: "bearer", expires_in: 3600 })
+  })
+
+  return { fetcher: fetcher as unknown as typeof fetch, requests }
+}
+
+describe("RedditTokenProvider", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    vi.setSystemTime(new Date("2025-10-18T12:00:00Z"))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("requests a token with the client credentials and caches it", async () => {
+    const { fetcher, requests } = tokenEndpoint()
+    const provider = new RedditTokenProvider(CONFIG, fetcher)
+
+    expect(await provider.getToken()).toBe("token-1")
+    expect(await provider.getToken()).toBe("token-1")
+
+    expect(requests).toHaveLength(1)
+    const headers = requests[0].headers as Record<string, string>
+    expect(headers.Authorization).toBe(`Basic ${Buffer.from("client-id:client-secret").toString("base64")}`)
+    expect(headers["User-Agent"]).toBe(CONFIG.userAgent)
+    expect(requests[0].body).toBe("grant_type=client_credentials")
+  })
+
+  it("shares one token request between concurrent callers", async () => {
+    const { fetcher, requests } = tokenEndpoint()
+    const provider = new RedditTokenProvider(CONFIG, fetcher)
+
+    const tokens = await Promise.all([provider.getToken(), provider.getToken(), provider.getToken()])
+
+    expect(tokens).toEqual(["token-1", "token-1", "token-1"])
+    expect(requests).toHaveLength(1)
+  })
+
+  it("refreshes the token a minute before it expires", async () => {
+    const { fetcher, requests } = tokenEndpoint()
+    const provider = new RedditTokenProvider(CONFIG, fetcher)
+    await provider.getToken()
+
+    vi.advanceTimersByTime((3600 - 61) * 1000)
+    expect(await provider.getToken()).toBe("token-1")
+
+    vi.advanceTimersByTime(2 * 1000)
+    expect(await provider.getToken()).toBe("token-2")
+    expect(requests).toHaveLength(2)
+  })
+
+  it("requests a new token after being invalidated", async () => {
+    const { fetcher, requests } = tokenEndpoint()
+    const provider = new RedditTokenProvider(CONFIG, fetcher)
+    await provider.getToken()
+
+    provider.invalidate()
+
+    expect(await provider.getToken()).toBe("token-2")
+    expect(requests).toHaveLength(2)
+  })
+
+  it("falls back to anonymous access and waits out the cooldown before retrying", async () => {
+    const { fetcher, requests } = tokenEndpoint(json({ error: "invalid_grant" }, 401))
+    const provider = new RedditTokenProvider(CONFIG, fetcher)
+
+    expect(await provider.getToken()).toBeNull()
+    vi.advanceTimersByTime(4 * 60 * 1000)
+    expect(await provider.getToken()).toBeNull()
+    expect(requests).toHaveLength(1)
+
+    vi.advanceTimersByTime(60 * 1000 + 1)
+    expect(await provider.getToken()).toBeNull()
+    expect(requests).toHaveLength(2)
+  })
+})
+
+describe("RedditClient with OAuth", () => {
+  /**
+   * Stands in for the shared scheduler, answering API requests with the given handler
+   */
+  function stubScheduler(handle: (url: string, headers: Record<string, string>) => Response) {
+    const calls: Array<{ url: string; authorization?: string; userAgent?: string }> = []
+    const scheduler = {
+      fetch: async (url: string, init: RequestInit) => {
+        const headers = init.headers as Record<string, string>
+        calls.push({ url, authorization: headers.Authorization, userAgent: headers["User-Agent"] })
+        return handle(url, headers)
+      },
+    } as unknown as RedditRequestScheduler
+
+    return { scheduler, calls }
+  }
+
+  const emptyListing = () => json({ data: { children: [], after: null } })
+
+  // A refused response whose body records whether it was released
+  function refused(status: number) {
+    const body = { cancelled: false }
+    const stream = new ReadableStream({
+      cancel() {
+        body.cancelled = true
+      },
+    })
+    return { response: new Response(stream, { status }), body }
+  }
+
+  it("invalidates the token on a 401 and retries with a fresh one", async () => {
+    const { fetcher, requests } = tokenEndpoint()
+    const provider = new RedditTokenProvider(CONFIG, fetcher)
+    const unauthorized = refused(401)
+    const { scheduler, calls } = stubScheduler((_url, headers) =>
+      headers.Authorization === "Bearer token-1" ? unauthorized.response : emptyListing(),
+    )
+
+    await new RedditClient(undefined, scheduler, provider, "https://reddit.test").searchPosts("pricing")
+
+    expect(unauthorized.body.cancelled).toBe(true)
+    expect(requests).toHaveLength(2)
+    expect(calls.map((c) => c.authorization)).toEqual(["Bearer token-1", "Bearer token-2"])
+    expect(calls.every((c) => c.url.startsWith("https://oauth.reddit.test/search?"))).toBe(true)
+  })
+
+  it("falls back to the public endpoints after a 403, releasing the refused response", async () => {
+    const { fetcher } = tokenEndpoint()
+    const provider = new RedditTokenProvider(CONFIG, fetcher)
+    const forbidden = refused(403)
+    const { scheduler, calls } = stubScheduler((_url, headers) => (headers.Authorization ? forbidden.response : emptyListing()))
+
+    await new RedditClient(undefined, scheduler, provider, "https://reddit.test").searchPosts("pricing")
+
+    expect(forbidden.body.cancelled).toBe(true)
+    expect(calls.map((c) => c.url.split("?")[0])).toEqual(["https://oauth.reddit.test/search", "https://reddit.test/search.json"])
+  })
+
+  it("uses the public endpoints when no token can be obtained", async () => {
+    const { fetcher } = tokenEndpoint(json({ error: "unauthorized" }, 401))
+    const provider = new RedditTokenProvider(CONFIG, fetcher)
+    const { scheduler, calls } = stubScheduler(() => emptyListing())
+
+    await new RedditClient(undefined, scheduler, provider, "https://reddit.test").searchPosts("pricing")
+
+    expect(calls).toHaveLength(1)
+    expect(calls[0].url).toMatch(/^https:\/\/reddit\.test\/search\.json\?/)
+    expect(calls[0].authorization).toBeUndefined()
+    expect(calls[0].userAgent).toBe(CONFIG.userAgent)
+  })
+
+  it("identifies the app when reading anonymously without OAuth", async () => {
+    vi.stubEnv("REDDIT_USER_AGENT", "web:acme-monitor:2.0 (by /u/acme)")
+    const { scheduler, calls } = stubScheduler(() => emptyListing())
+
+    await new RedditClient(undefined, scheduler, null, "https://reddit.test").searchPosts("pricing")
+    vi.unstubAllEnvs()
+
+    expect(calls[0].userAgent).toBe("web:acme-monitor:2.0 (by /u/acme)")
+  })
+})
@@ -0,0 +1,128 @@
+// Reddit Auth
+// Obtains and caches application-only OAuth tokens for oauth.reddit.com
+
+export interface RedditAuthConfig {
+  clientId: string
+  clientSecret: string
+  // Reddit asks API clients to identify themselves as <platform>:<app id>:<version> (by /u/<username>)
+  userAgent: string
+  // Token endpoint, e.g. https://www.reddit.com/api/v1/access_token
+  tokenUrl: string
+  // Base URL for authenticated API requests, e.g. https://oauth.reddit.com
+  apiUrl: string
+}
+
+/**
+ * Identifies this app to Reddit, from REDDIT_USER_AGENT when set
+ */
+export function redditUserAgent(env: NodeJS.ProcessEnv = process.env): string {
+  return env.REDDIT_USER_AGENT?.trim() || "web:v0-sentiment-dashboard:1.0"
+}
+
+interface TokenResponse {
+  access_token?: string
+  token_type?: string
+  expires_in?: number
+  error?: string
+}
+
+export class RedditTokenProvider {
+  // Refresh a little before Reddit expires the token so in-flight requests don't race it
+  private static EXPIRY_MARGIN_MS = 60 * 1000
+  // After a failed token request, stay anonymous for a while instead of retrying on every call
+  private static FAILURE_COOLDOWN_MS = 5 * 60 * 1000
+
+  private token: string | null = null
+  private expiresAt = 0
+  private failedUntil = 0
+  // Concurrent callers share a single token request
+  private pending: Promise<string | null> | null = null
+
+  constructor(
+    readonly config: RedditAuthConfig,
+    private fetcher: typeof fetch = fetch,
+  ) {}
+
+  /**
+   * Reads credentials from the environment, returning null when OAuth is not configured
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): RedditTokenProvider | null {
+    const clientId = env.REDDIT_CLIENT_ID?.trim()
+    const clientSecret = env.REDDIT_CLIENT_SECRET?.trim()
+    if (!clientId || !clientSecret) return null
+
+    return new RedditTokenProvider({
+      clientId,
+      clientSecret,
+      userAgent: redditUserAgent(env),
+      tokenUrl: env.REDDIT_TOKEN_URL?.trim() || "https://www.reddit.com/api/v1/access_token",
+      apiUrl: (env.REDDIT_API_URL?.trim() || "https://oauth.reddit.com").replace(/\/+$/, ""),
+    })
+  }
+
+  /**
+   * Returns a valid access token, requesting a new one when the cached token is missing or about to expire
+   * Returns null when the token endpoint fails, so callers can fall back to anonymous requests
+   */
+  async getToken(signal?: AbortSignal): Promise<string | null> {
+    if (this.token && Date.now() < this.expiresAt) return this.token
+    if (Date.now() < this.failedUntil) return null
+
+    if (!this.pending) {
+      this.pending = this.requestToken(signal).finally(() => {
+        this.pending = null
+      })
+    }
+    return this.pending
+  }
+
+  /**
+   * Drops the cached token, e.g. after the API rejected it with 401
+   */
+  invalidate(): void {
+    this.token = null
+    this.expiresAt = 0
+  }
+
+  private async requestToken(signal?: AbortSignal): Promise<string | null> {
+    const { clientId, clientSecret, userAgent, tokenUrl } = this.config
+
+    try {
+      const response = await this.fetcher(tokenUrl, {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString("base64")}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+          "User-Agent": userAgent,
+        },
+        body: "grant_type=client_credentials",
+        signal,
+      })
+
+      const data: TokenResponse = await response.json().catch(() => ({}))
+      if (!response.ok || !data.access_token) {
+        throw new Error(data.error ?? `status ${response.status}`)
+      }
+
+      const lifetimeMs = (data.expires_in ?? 3600) * 1000
+      this.token = data.access_token
+      this.expiresAt = Date.now() + Math.max(lifetimeMs - RedditTokenProvider.EXPIRY_MARGIN_MS, 0)
+      console.log("[v0] Obtained Reddit OAuth token")
+      return this.token
+    } catch (error) {
+      if (signal?.aborted) throw error
+      console.error("[v0] Reddit OAuth token request failed, using anonymous access:", error)
+      this.invalidate()
+      this.failedUntil = Date.now() + RedditTokenProvider.FAILURE_COOLDOWN_MS
+      return null
+    }
+  }
+}
+
+// Keep one token cache per process, across all Reddit clients and Next.js hot reloads
+const globalForAuth = globalThis as unknown as { redditTokenProvider?: RedditTokenProvider | null }
+
+export const redditTokenProvider =
+  globalForAuth.redditTokenProvider !== undefined
+    ? globalForAuth.redditTokenProvider
+    : (globalForAuth.redditTokenProvider = RedditTokenProvider.fromEnv())
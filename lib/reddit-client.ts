@@ -1,111 +1,138 @@
 // Reddit API Client
 // Handles fetching and processing Reddit data
 
-import type { RedditPost, RedditResponse } from "./types"
+import {
+  discardBody,
+  RedditRateLimitError,
+  redditRequestScheduler,
+  type RedditRequestScheduler,
+  type ScheduledRequestOptions,
+} from "./reddit-request-scheduler"
+import { redditTokenProvider, redditUserAgent, type RedditTokenProvider } from "./reddit-auth"
+import { CompanyMatcher } from "./company-matcher"
+import type { ConversationOptions, MentionSource, SourceSearchOptions } from "./mention-source"
+import type { RedditComment, RedditCommentThing, RedditPost, RedditResponse, SourceMention } from "./types"
+
+export class RedditClient implements MentionSource {
+  readonly id = "reddit" as const
+  readonly label = "Reddit"
+
+  // Reddit serves at most 100 listing items or expanded comments per request
+  private static MAX_PAGE_SIZE = 100
+  private static MAX_SEARCH_PAGES = 5
+  // "Load more comments" expansions allowed per thread, on top of the per-analysis comment budget
+  private static MAX_MORE_REQUESTS = 5
 
-export class RedditClient {
   private userAgent: string
+  private scheduler: RedditRequestScheduler
+  private tokenProvider: RedditTokenProvider | null
+  private anonymousUrl: string
 
+  /**
+   * Uses application-only OAuth when a token provider is configured, and the public JSON endpoints otherwise
+   */
   constructor(
-    userAgent = "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+    userAgent = redditUserAgent(),
+    scheduler = redditRequestScheduler,
+    tokenProvider = redditTokenProvider,
+    anonymousUrl = "https://www.reddit.com",
   ) {
-    this.userAgent = userAgent
+    // Anonymous requests identify the app the same way OAuth requests do
+    this.userAgent = tokenProvider?.config.userAgent ?? userAgent
+    this.scheduler = scheduler
+    this.tokenProvider = tokenProvider
+    this.anonymousUrl = anonymousUrl
+  }
+
+  /**
+   * Searches Reddit and returns the posts as source-agnostic mentions
+   */
+  async search(query: string, options: SourceSearchOptions = {}): Promise<SourceMention[]> {
+    const posts = await this.searchPosts(query, options)
+    return posts.map((post) => this.toMention(post))
+  }
+
+  /**
+   * Loads the comments under a post returned by search, up to the requested limit
+   */
+  async fetchConversation(post: SourceMention, options: ConversationOptions = {}): Promise<SourceMention[]> {
+    if (!post.conversationRef) return []
+
+    const comments = await this.fetchComments(post.conversationRef, options)
+    return comments.map((comment) => ({
+      id: comment.id,
+      source: this.id,
+      kind: "comment" as const,
+      text: comment.body,
+      title: post.title,
+      channel: post.channel,
+      author: comment.author,
+      url: comment.permalink ? `https://reddit.com${comment.permalink}` : post.url,
+      created: new Date(comment.created_utc * 1000).toISOString(),
+      engagement: comment.score ?? 0,
+      threadId: post.id,
+      // Reddit fullnames carry a type prefix (t1_ comment, t3_ post)
+      parentId: comment.parent_id?.replace(/^t\d_/, "") ?? post.id,
+      depth: comment.depth,
+      replyCount: comment.reply_count,
+    }))
   }
 
   /**
    * Searches Reddit for posts about a specific query
    */
-  async search(query: string, options: { limit?: number; timeframe?: string; company?: string } = {}): Promise<RedditPost[]> {
-    const { limit = 20, timeframe = "day", company } = options
+  async searchPosts(query: string, options: SourceSearchOptions = {}): Promise<RedditPost[]> {
+    const { limit = 20, timeframe = "day", company, profile, signal, onWait } = options
 
     try {
       console.log("[v0] Fetching Reddit posts for:", query)
 
-      // If company is provided, make the search more specific by requiring company in the query
+      const matcher = company ? new CompanyMatcher(company, profile) : null
+
+      // If company is provided, make the search more specific by requiring company (or an alias or product) in the query
       let searchQuery = query
-      if (company && !query.toLowerCase().includes(company.toLowerCase())) {
+      if (company && !matcher?.mentions(query)) {
         searchQuery = `${company} ${query}`
       }
 
-      // Use relevance sorting to get better results, and increase limit to compensate for filtering
-      const url = `https://www.reddit.com/search.json?q=${encodeURIComponent(searchQuery)}&sort=relevance&limit=${limit * 3}&t=${timeframe}`
-
-      const response = await fetch(url, {
-        headers: {
-          "User-Agent": this.userAgent,
-          Accept: "application/json, text/plain, */*",
-          "Accept-Language": "en-US,en;q=0.9",
-          "Accept-Encoding": "gzip, deflate, br",
-          Referer: "https://www.reddit.com/",
-        },
-      })
-
-      if (!response.ok) {
-        console.log("[v0] Reddit API returned status:", response.status)
-        return []
-      }
-
-      // Check if response is actually JSON
-      const contentType = response.headers.get("content-type")
-      if (!contentType || !contentType.includes("application/json")) {
-        console.log("[v0] Reddit API returned non-JSON response (likely blocked)")
-        return []
-      }
+      // Use relevance sorting to get better results, and over-fetch to compensate for filtering
+      const pageSize = Math.min(limit * 3, RedditClient.MAX_PAGE_SIZE)
+      let posts: RedditPost[] = []
+      let after: string | null | undefined
+      let pages = 0
+
+      // Follow the listing cursor until enough posts survive filtering or Reddit runs out of results
+      do {
+        const response = await this.request(
+          "/search",
+          { q: searchQuery, sort: "relevance", limit: String(pageSize), t: timeframe, ...(after ? { after } : {}) },
+          { signal, onWait },
+        )
+
+        if (!response.ok) {
+          console.log("[v0] Reddit API returned status:", response.status)
+          break
+        }
 
-      const data: RedditResponse = await response.json()
+        // Check if response is actually JSON
+        const contentType = response.headers.get("content-type")
+        if (!contentType || !contentType.includes("application/json")) {
+          console.log("[v0] Reddit API returned non-JSON response (likely blocked)")
+          break
+        }
 
-      // Validate the response structure
-      if (!data || !data.data || !Array.isArray(data.data.children)) {
-        console.log("[v0] Invalid Reddit API response structure")
-        return []
-      }
+        const data: RedditResponse = await response.json()
 
-      let posts = data.data.children
-
-      // If company is provided, STRICTLY filter posts to only include those that explicitly mention the company
-      if (company) {
-        const originalCount = posts.length
-        posts = posts.filter((post) => {
-          const title = post.data.title.toLowerCase()
-          const selftext = post.data.selftext.toLowerCase()
-          const lowerCompany = company.toLowerCase()
-
-          // Check if company name appears as a whole word in title or first 500 chars of text
-          // Use word boundaries to avoid matching "Tesla" in "Tesla coil" when looking for "Tesla" the company
-          const textToCheck = (title + " " + selftext.slice(0, 500)).toLowerCase()
-
-          // Create regex with word boundaries for exact company name match
-          const companyRegex = new RegExp(`\\b${lowerCompany.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i')
-
-          // Company name MUST appear in the title or early in the post (not buried deep)
-          const appearsInTitle = companyRegex.test(title)
-          const appearsEarlyInPost = companyRegex.test(textToCheck)
-
-          if (!appearsInTitle && !appearsEarlyInPost) {
-            return false
-          }
-
-          // Additional filtering: reject if it's clearly about something else
-          const irrelevantPatterns = [
-            /tesla\s+coil/i,  // Tesla coil (physics)
-            /nikola\s+tesla/i,  // The inventor, not the company
-            /tesla\s+(unit|measurement)/i,  // Tesla the unit of measurement
-            /\bhiring\b/i,  // Job postings
-            /\bwe'?re\s+hiring\b/i,  // Job postings
-            /\bjoin\s+our\s+team\b/i,  // Job postings
-            /\bposition\s+available\b/i,  // Job postings
-            /\bresume\b/i,  // Job postings
-          ]
-
-          if (irrelevantPatterns.some(pattern => pattern.test(textToCheck))) {
-            return false
-          }
-
-          return true
-        })
+        // Validate the response structure
+        if (!data || !data.data || !Array.isArray(data.data.children)) {
+          console.log("[v0] Invalid Reddit API response structure")
+          break
+        }
 
-        console.log(`[v0] STRICT FILTER: ${originalCount} posts -> ${posts.length} posts mentioning "${company}"`)
-      }
+        posts.push(...(matcher ? this.filterByCompany(data.data.children, matcher) : data.data.children))
+        after = data.data.after
+        pages++
+      } while (after && posts.length < limit && pages < RedditClient.MAX_SEARCH_PAGES)
 
       // Take only the requested limit after filtering
       posts = posts.slice(0, limit)
@@ -114,11 +141,47 @@ export class RedditClient {
 
       return posts
     } catch (error) {
+      if (signal?.aborted || error instanceof RedditRateLimitError) throw error
       console.error("[v0] Reddit fetch error:", error)
       return []
     }
   }
 
+  /**
+   * Keeps only posts that explicitly mention the company near the top
+   */
+  private filterByCompany(posts: RedditPost[], matcher: CompanyMatcher): RedditPost[] {
+    const originalCount = posts.length
+    const filtered = posts.filter((post) => {
+      // Company name (or an alias, product or handle) MUST appear in the title or first 500 chars of text, not buried deep
+      const textToCheck = `${post.data.title} ${post.data.selftext.slice(0, 500)}`
+
+      // Whole-word matching keeps "Meta" from matching "metadata"; the profile's negative patterns reject
+      // other meanings of the name such as "Tesla coil" or "apple pie"
+      if (!matcher.matches(textToCheck)) {
+        return false
+      }
+
+      // Additional filtering: reject if it's clearly a job posting
+      const irrelevantPatterns = [
+        /\bhiring\b/i,  // Job postings
+        /\bwe'?re\s+hiring\b/i,  // Job postings
+        /\bjoin\s+our\s+team\b/i,  // Job postings
+        /\bposition\s+available\b/i,  // Job postings
+        /\bresume\b/i,  // Job postings
+      ]
+
+      if (irrelevantPatterns.some(pattern => pattern.test(textToCheck))) {
+        return false
+      }
+
+      return true
+    })
+
+    console.log(`[v0] STRICT FILTER: ${originalCount} posts -> ${filtered.length} posts mentioning "${matcher.company}"`)
+    return filtered
+  }
+
   /**
    * Extracts text content from a Reddit post
    */
@@ -133,6 +196,28 @@ export class RedditClient {
     return `https://reddit.com${post.data.permalink}`
   }
 
+  /**
+   * Converts a Reddit post to a source-agnostic mention
+   */
+  toMention(post: RedditPost): SourceMention {
+    return {
+      id: post.data.id,
+      source: this.id,
+      kind: "post",
+      text: this.extractText(post),
+      title: post.data.title,
+      channel: post.data.subreddit,
+      author: post.data.author,
+      url: this.getPostUrl(post),
+      created: new Date(post.data.created_utc * 1000).toISOString(),
+      engagement: post.data.score,
+      conversationRef: post.data.permalink,
+      threadId: post.data.id,
+      replyCount: post.data.num_comments,
+      canonicalId: post.data.crosspost_parent?.replace(/^t3_/, ""),
+    }
+  }
+
   /**
    * Filters posts by minimum score
    */
@@ -151,19 +236,11 @@ export class RedditClient {
   /**
    * Fetches comments from a Reddit post
    */
-  async fetchComments(permalink: string): Promise<any[]> {
+  async fetchComments(permalink: string, options: ConversationOptions = {}): Promise<RedditComment[]> {
+    const { signal, onWait, limit = Infinity } = options
+
     try {
-      const url = `https://www.reddit.com${permalink}.json`
-
-      const response = await fetch(url, {
-        headers: {
-          "User-Agent": this.userAgent,
-          Accept: "application/json, text/plain, */*",
-          "Accept-Language": "en-US,en;q=0.9",
-          "Accept-Encoding": "gzip, deflate, br",
-          Referer: "https://www.reddit.com/",
-        },
-      })
+      const response = await this.request(permalink, {}, { signal, onWait })
 
       if (!response.ok) {
         return []
@@ -186,24 +263,131 @@ export class RedditClient {
         return []
       }
 
-      // Extract all comments (flatten nested replies)
-      const comments = this.flattenComments(commentsData.data.children)
+      // Extract all comments (flatten nested replies), noting collapsed "load more comments" stubs
+      const moreIds: string[] = []
+      const comments = this.flattenComments(commentsData.data.children, moreIds)
+
+      const linkId = data[0]?.data?.children?.[0]?.data?.name
+      if (linkId && moreIds.length > 0 && comments.length < limit) {
+        comments.push(...(await this.expandMoreComments(linkId, moreIds, limit - comments.length, { signal, onWait })))
+      }
 
-      return comments
+      return comments.slice(0, limit)
     } catch (error) {
+      if (signal?.aborted || error instanceof RedditRateLimitError) throw error
       console.error("[v0] Error fetching comments:", error)
       return []
     }
   }
 
+  /**
+   * Loads comments hidden behind "load more comments" stubs, 100 at a time
+   * Expanded comments can carry further stubs; those are queued until the limit or request cap is reached
+   */
+  private async expandMoreComments(
+    linkId: string,
+    moreIds: string[],
+    limit: number,
+    options: ScheduledRequestOptions,
+  ): Promise<RedditComment[]> {
+    const comments: RedditComment[] = []
+    const queue = [...moreIds]
+    let requests = 0
+
+    while (queue.length > 0 && comments.length < limit && requests < RedditClient.MAX_MORE_REQUESTS) {
+      requests++
+      const children = queue.splice(0, RedditClient.MAX_PAGE_SIZE)
+      const response = await this.request(
+        "/api/morechildren",
+        { api_type: "json", link_id: linkId, children: children.join(","), limit_children: "false" },
+        options,
+      )
+
+      const contentType = response.headers.get("content-type")
+      if (!response.ok || !contentType || !contentType.includes("application/json")) {
+        console.log("[v0] Reddit morechildren returned status:", response.status)
+        break
+      }
+
+      const data = await response.json()
+      const things = data?.json?.data?.things
+      if (!Array.isArray(things)) break
+
+      comments.push(...this.flattenComments(things, queue))
+    }
+
+    if (queue.length > 0) {
+      console.log(`[v0] Left ${queue.length} collapsed comments unexpanded`)
+    }
+    return comments
+  }
+
+  /**
+   * Requests a Reddit listing through OAuth when a token is available, anonymously otherwise
+   * Falls back to anonymous access when the OAuth API keeps rejecting the token
+   */
+  private async request(
+    path: string,
+    query: Record<string, string>,
+    options: ScheduledRequestOptions,
+  ): Promise<Response> {
+    const search = new URLSearchParams(query).toString()
+    const suffix = search ? `?${search}` : ""
+
+    if (this.tokenProvider) {
+      // A 401 usually means the cached token expired early, so get a fresh one and try once more
+      for (let attempt = 0; attempt < 2; attempt++) {
+        const token = await this.tokenProvider.getToken(options.signal)
+        if (!token) break
+
+        const response = await this.scheduler.fetch(
+          `${this.tokenProvider.config.apiUrl}${path}${suffix}`,
+          { headers: this.oauthHeaders(token) },
+          options,
+        )
+        if (response.status === 401) {
+          await discardBody(response)
+          this.tokenProvider.invalidate()
+          continue
+        }
+        if (response.status !== 403) return response
+        await discardBody(response)
+        break
+      }
+      console.log("[v0] Reddit OAuth unavailable, falling back to anonymous access")
+    }
+
+    return this.scheduler.fetch(`${this.anonymousUrl}${path}.json${suffix}`, { headers: this.headers() }, options)
+  }
+
+  private oauthHeaders(token: string): Record<string, string> {
+    return {
+      Authorization: `Bearer ${token}`,
+      "User-Agent": this.userAgent,
+      Accept: "application/json",
+    }
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      "User-Agent": this.userAgent,
+      Accept: "application/json",
+    }
+  }
+
   /**
    * Flattens nested comment structure into a single array
+   * Ids behind "load more comments" stubs are appended to moreIds for later expansion
    */
-  private flattenComments(children: any[]): any[] {
-    const comments: any[] = []
+  private flattenComments(children: RedditCommentThing[], moreIds: string[] = [], depth = 0): RedditComment[] {
+    const comments: RedditComment[] = []
 
     for (const child of children) {
       if (child.kind === "t1" && child.data?.body) {
+        // Expanded "more" comments arrive as a flat list, so prefer Reddit's own depth when present
+        const commentDepth = child.data.depth ?? depth
+        const replies = child.data.replies ? (child.data.replies.data?.children ?? []) : []
+
         // This is a comment
         comments.push({
           id: child.data.id,
@@ -211,12 +395,23 @@ export class RedditClient {
           author: child.data.author,
           score: child.data.score,
           created_utc: child.data.created_utc,
+          parent_id: child.data.parent_id,
+          permalink: child.data.permalink,
+          depth: commentDepth,
+          // Collapsed replies count too; a "more" stub lists the ids it hides
+          reply_count: replies.reduce(
+            (count, reply) => count + (reply.kind === "more" ? (reply.data?.children?.length ?? 0) : 1),
+            0,
+          ),
         })
 
         // Recursively get replies
-        if (child.data.replies?.data?.children) {
-          comments.push(...this.flattenComments(child.data.replies.data.children))
+        if (replies.length > 0) {
+          comments.push(...this.flattenComments(replies, moreIds, commentDepth + 1))
         }
+      } else if (child.kind === "more" && Array.isArray(child.data?.children)) {
+        // "Continue this thread" stubs have no children and can't be expanded here
+        moreIds.push(...child.data.children)
       }
     }
 
@@ -233,7 +428,7 @@ export class RedditClient {
     const results = new Map<string, RedditPost[]>()
 
     for (const topic of topics) {
-      const posts = await this.search(topic, options)
+      const posts = await this.searchPosts(topic, options)
       if (posts.length > 0) {
         results.set(topic, posts)
       }
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { RedditRateLimitError, RedditRequestScheduler } from "./reddit-request-scheduler"
+
+/**
+ * A response whose body records whether it was cancelled
+ */
+function trackedResponse(status: number, headers: Record<string, string> = {}) {
+  const body = { cancelled: false }
+  const stream = new ReadableStream({
+    cancel() {
+      body.cancelled = true
+    },
+  })
+  return { response: new Response(stream, { status, headers }), body }
+}
+
+describe("RedditRequestScheduler", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  it("falls back to 60 requests a minute when REDDIT_REQUESTS_PER_MINUTE is invalid", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {})
+
+    for (const value of ["fast", "0", "-5"]) {
+      vi.stubEnv("REDDIT_REQUESTS_PER_MINUTE", value)
+      const scheduler = new RedditRequestScheduler()
+      expect((scheduler as unknown as { refillPerMs: number }).refillPerMs).toBe(60 / 60000)
+    }
+    expect(error).toHaveBeenCalledTimes(3)
+
+    vi.stubEnv("REDDIT_REQUESTS_PER_MINUTE", "30")
+    expect((new RedditRequestScheduler() as unknown as { refillPerMs: number }).refillPerMs).toBe(30 / 60000)
+  })
+
+  it("discards the body of a 5xx response before retrying", async () => {
+    const failed = trackedResponse(503, { "Retry-After": "0" })
+    const fetch = vi.fn().mockResolvedValueOnce(failed.response).mockResolvedValueOnce(new Response("{}"))
+    vi.stubGlobal("fetch", fetch)
+
+    const response = await new RedditRequestScheduler({ requestsPerMinute: 600 }).fetch("https://reddit.test", {})
+
+    expect(response.status).toBe(200)
+    expect(fetch).toHaveBeenCalledTimes(2)
+    expect(failed.body.cancelled).toBe(true)
+  })
+
+  it("discards the body of a 429 it gives up on", async () => {
+    const limited = trackedResponse(429, { "Retry-After": "120" })
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(limited.response))
+
+    await expect(new RedditRequestScheduler({ maxWaitMs: 1000 }).fetch("https://reddit.test", {})).rejects.toThrow(
+      RedditRateLimitError,
+    )
+    expect(limited.body.cancelled).toBe(true)
+  })
+})
@@ -0,0 +1,195 @@
+// Reddit Request Scheduler
+// Paces every Reddit request through a shared token bucket and honors Reddit's rate limit headers
+
+export class RedditRateLimitError extends Error {
+  constructor(public retryAfterMs: number) {
+    super(`Reddit is rate limiting requests. Try again in ${Math.ceil(retryAfterMs / 1000)} seconds.`)
+    this.name = "RedditRateLimitError"
+  }
+}
+
+export interface RequestSchedulerOptions {
+  // Sustained request rate across all analyses in this process
+  requestsPerMinute?: number
+  // Requests that may go out back to back before pacing kicks in
+  burst?: number
+  maxRetries?: number
+  // Waits longer than this are reported to the caller instead of slept through
+  maxWaitMs?: number
+}
+
+export interface ScheduledRequestOptions {
+  signal?: AbortSignal
+  // Called before sleeping because of a rate limit or retry
+  onWait?: (waitMs: number, reason: string) => void
+}
+
+export class RedditRequestScheduler {
+  private static DEFAULT_REQUESTS_PER_MINUTE = 60
+
+  private capacity: number
+  private refillPerMs: number
+  private maxRetries: number
+  private maxWaitMs: number
+
+  private tokens: number
+  private lastRefill = Date.now()
+  // Reddit's own view of the quota, taken from the latest response headers
+  private blockedUntil = 0
+  // Token reservations are handed out one at a time so concurrent callers queue fairly
+  private reservation: Promise<void> = Promise.resolve()
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    const requestsPerMinute =
+      options.requestsPerMinute ?? RedditRequestScheduler.parseRequestsPerMinute(process.env.REDDIT_REQUESTS_PER_MINUTE)
+    this.capacity = options.burst ?? 5
+    this.refillPerMs = requestsPerMinute / 60000
+    this.maxRetries = options.maxRetries ?? 3
+    this.maxWaitMs = options.maxWaitMs ?? 60000
+    this.tokens = this.capacity
+  }
+
+  /**
+   * Fetches a URL once a token is available, retrying 429 and 5xx responses with backoff
+   * Throws RedditRateLimitError when Reddit keeps refusing or asks for a wait longer than maxWaitMs
+   */
+  async fetch(url: string, init: RequestInit, options: ScheduledRequestOptions = {}): Promise<Response> {
+    const { signal, onWait } = options
+
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(signal, onWait)
+
+      const response = await fetch(url, { ...init, signal })
+      this.updateFromHeaders(response.headers)
+
+      const retryable = response.status === 429 || response.status >= 500
+      if (!retryable) return response
+
+      const retryAfterMs = this.parseRetryAfter(response.headers) ?? 1000 * 2 ** attempt
+      console.log(`[v0] Reddit returned ${response.status}, attempt ${attempt + 1}/${this.maxRetries + 1}`)
+
+      if (attempt >= this.maxRetries || retryAfterMs > this.maxWaitMs) {
+        if (response.status === 429) {
+          await discardBody(response)
+          this.blockedUntil = Math.max(this.blockedUntil, Date.now() + retryAfterMs)
+          throw new RedditRateLimitError(retryAfterMs)
+        }
+        return response
+      }
+
+      // Nobody reads a refused response, and an unread body keeps its connection busy
+      await discardBody(response)
+
+      if (response.status === 429) {
+        this.blockedUntil = Math.max(this.blockedUntil, Date.now() + retryAfterMs)
+      } else {
+        onWait?.(retryAfterMs, `Reddit returned ${response.status}, retrying`)
+        await sleep(retryAfterMs, signal)
+      }
+    }
+  }
+
+  /**
+   * Reads REDDIT_REQUESTS_PER_MINUTE, falling back to the default when it isn't a positive number
+   */
+  private static parseRequestsPerMinute(value: string | undefined): number {
+    if (value === undefined || value.trim() === "") return RedditRequestScheduler.DEFAULT_REQUESTS_PER_MINUTE
+
+    const requestsPerMinute = Number(value)
+    if (!Number.isFinite(requestsPerMinute) || requestsPerMinute <= 0) {
+      console.error(`[v0] Ignoring invalid REDDIT_REQUESTS_PER_MINUTE "${value}"`)
+      return RedditRequestScheduler.DEFAULT_REQUESTS_PER_MINUTE
+    }
+    return requestsPerMinute
+  }
+
+  /**
+   * Waits for both the local token bucket and any server-imposed block
+   */
+  private acquire(signal?: AbortSignal, onWait?: ScheduledRequestOptions["onWait"]): Promise<void> {
+    const turn = this.reservation.then(async () => {
+      const blockedMs = this.blockedUntil - Date.now()
+      if (blockedMs > this.maxWaitMs) {
+        throw new RedditRateLimitError(blockedMs)
+      }
+      if (blockedMs > 0) {
+        onWait?.(blockedMs, "Rate limited by Reddit")
+        await sleep(blockedMs, signal)
+      }
+
+      this.refill()
+      if (this.tokens < 1) {
+        const waitMs = Math.ceil((1 - this.tokens) / this.refillPerMs)
+        await sleep(waitMs, signal)
+        this.refill()
+      }
+      this.tokens -= 1
+    })
+
+    this.reservation = turn.catch(() => {})
+    return turn
+  }
+
+  private refill(): void {
+    const now = Date.now()
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs)
+    this.lastRefill = now
+  }
+
+  /**
+   * Reads X-Ratelimit-Remaining/Reset so an exhausted quota blocks until Reddit resets it
+   */
+  private updateFromHeaders(headers: Headers): void {
+    const remaining = Number.parseFloat(headers.get("x-ratelimit-remaining") ?? "")
+    const resetSeconds = Number.parseFloat(headers.get("x-ratelimit-reset") ?? "")
+
+    if (!Number.isNaN(remaining) && !Number.isNaN(resetSeconds) && remaining < 1) {
+      this.blockedUntil = Math.max(this.blockedUntil, Date.now() + resetSeconds * 1000)
+      console.log(`[v0] Reddit quota exhausted, pausing requests for ${resetSeconds}s`)
+    }
+  }
+
+  /**
+   * Parses Retry-After as either delay seconds or an HTTP date
+   */
+  private parseRetryAfter(headers: Headers): number | null {
+    const value = headers.get("retry-after")
+    if (!value) return null
+
+    const seconds = Number(value)
+    if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000)
+
+    const date = Date.parse(value)
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+  }
+}
+
+/**
+ * Releases the connection behind a response whose body won't be read
+ */
+export async function discardBody(response: Response): Promise<void> {
+  await response.body?.cancel().catch(() => {})
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+// Every RedditClient shares one scheduler so concurrent analyses draw from the same quota
+const globalForScheduler = globalThis as unknown as { redditRequestScheduler?: RedditRequestScheduler }
+
+export const redditRequestScheduler =
+  globalForScheduler.redditRequestScheduler ??
+  (globalForScheduler.redditRequestScheduler = new RedditRequestScheduler())
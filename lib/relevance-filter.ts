@@ -1,36 +1,63 @@
 // Relevance Filter
 // Filters comments/posts to only include those relevant to the company
 
-import { createOpenAI } from "@ai-sdk/openai"
-import { generateText } from "ai"
+import { relevanceResponseSchema } from "./llm-response-schemas"
+import { modelRegistry, type RoleModel } from "./model-registry"
+import { generateStructured, StructuredOutputError, type InvalidResponseHandler } from "./structured-output"
+import { LanguageDetector } from "./language-detector"
+import { CompanyMatcher } from "./company-matcher"
+import type { CompanyProfile } from "./types"
 
 export interface ContentItem {
   id: string
   text: string
+  language?: string
   [key: string]: any
 }
 
-export class RelevanceFilter {
-  private model: any
+// Sentiment keywords for languages other than English; languages without a list skip the keyword check
+const SENTIMENT_WORDS: Record<string, string[]> = {
+  es: ["encanta", "genial", "excelente", "increíble", "bueno", "mejor", "recomiendo", "feliz", "odio", "terrible", "horrible", "peor", "malo", "decepcion", "fatal", "basura", "opinión", "experiencia", "creo", "problema"],
+  de: ["liebe", "toll", "super", "großartig", "ausgezeichnet", "gut", "beste", "empfehle", "zufrieden", "hasse", "schrecklich", "furchtbar", "schlecht", "schlimm", "enttäusch", "ärger", "müll", "meinung", "erfahrung", "finde", "problem"],
+  fr: ["adore", "génial", "excellent", "super", "bien", "meilleur", "recommande", "content", "déteste", "horrible", "nul", "pire", "mauvais", "déçu", "décevant", "arnaque", "avis", "expérience", "trouve", "problème"],
+  pt: ["adoro", "ótimo", "excelente", "incrível", "bom", "melhor", "recomendo", "feliz", "odeio", "terrível", "horrível", "pior", "ruim", "péssimo", "decepcion", "lixo", "opinião", "experiência", "acho", "problema"],
+  it: ["adoro", "fantastico", "ottimo", "eccellente", "buono", "migliore", "consiglio", "contento", "odio", "terribile", "orribile", "peggio", "pessimo", "delus", "schifo", "opinione", "esperienza", "penso", "problema"],
+  nl: ["geweldig", "fantastisch", "uitstekend", "goed", "beste", "aanrader", "tevreden", "haat", "verschrikkelijk", "slecht", "slechtste", "teleurgesteld", "waardeloos", "mening", "ervaring", "vind", "probleem"],
+}
 
-  constructor() {
-    const openai = createOpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    })
-    this.model = openai("gpt-4o-mini")
-  }
+export class RelevanceFilter {
+  constructor(
+    private llm: RoleModel = modelRegistry.get("filter"),
+    private onInvalidResponse: InvalidResponseHandler = () => {},
+  ) {}
 
   /**
    * Filters content items to only include those relevant to the company
    * Uses AI to determine relevance based on context
+   * @param requireCompanyMention False for feedback sent to the company directly, which rarely names it
    */
-  async filterRelevant(items: ContentItem[], company: string, batchSize: number = 10): Promise<ContentItem[]> {
+  async filterRelevant<T extends ContentItem>(
+    items: T[],
+    company: string,
+    batchSize: number = 10,
+    profile: CompanyProfile | null = null,
+    requireCompanyMention = true,
+  ): Promise<T[]> {
     if (items.length === 0) return []
 
     console.log(`[v0] Filtering ${items.length} items for relevance to: ${company}`)
+    const matcher = new CompanyMatcher(company, profile)
 
     // STEP 1: Quick pre-filter to remove obvious non-sentiment content
-    const preFiltered = items.filter((item) => !this.isObviouslyIrrelevant(item.text, company))
+    const preFiltered = items.filter(
+      (item) =>
+        !this.isObviouslyIrrelevant(
+          item.text,
+          matcher,
+          item.language ?? LanguageDetector.detect(item.text),
+          requireCompanyMention,
+        ),
+    )
     console.log(`[v0] Pre-filter: ${preFiltered.length} items remaining after removing obvious non-sentiment content`)
 
     if (preFiltered.length === 0) {
@@ -39,12 +66,12 @@ export class RelevanceFilter {
     }
 
     // STEP 2: AI-based filtering for nuanced relevance
-    const relevant: ContentItem[] = []
+    const relevant: T[] = []
 
     // Process in batches to avoid token limits
     for (let i = 0; i < preFiltered.length; i += batchSize) {
       const batch = preFiltered.slice(i, i + batchSize)
-      const batchResults = await this.filterBatch(batch, company)
+      const batchResults = await this.filterBatch(batch, matcher, requireCompanyMention)
       relevant.push(...batchResults)
     }
 
@@ -57,26 +84,37 @@ export class RelevanceFilter {
    * Quick keyword-based filter to eliminate obvious non-sentiment content
    * Returns true if the item is obviously irrelevant (should be filtered out)
    */
-  private isObviouslyIrrelevant(text: string, company: string): boolean {
+  private isObviouslyIrrelevant(
+    text: string,
+    matcher: CompanyMatcher,
+    language = "en",
+    requireCompanyMention = true,
+  ): boolean {
     const lowerText = text.toLowerCase()
-    const lowerCompany = company.toLowerCase()
+    const lowerCompany = matcher.company.toLowerCase()
 
     // MUST have sentiment words to proceed - this is critical
-    const hasSentimentWords = this.hasSentimentIndicators(lowerText)
+    const hasSentimentWords = this.hasSentimentIndicators(lowerText, language)
     if (!hasSentimentWords) {
       return true // No sentiment = irrelevant
     }
 
-    // Must mention the company (strict check)
-    if (!lowerText.includes(lowerCompany)) {
-      // Allow some flexibility for common abbreviations
+    // Must mention the company, an alias, product or handle (strict check)
+    if (requireCompanyMention && !matcher.mentions(text)) {
+      // Allow some flexibility for common abbreviations of multi-word names ("Goldman" for "Goldman Sachs")
       const companyWords = lowerCompany.split(/\s+/)
-      const hasAnyCompanyWord = companyWords.some((word) => word.length > 3 && lowerText.includes(word))
+      const hasAnyCompanyWord =
+        companyWords.length > 1 && companyWords.some((word) => word.length > 3 && new CompanyMatcher(word).mentions(text))
       if (!hasAnyCompanyWord) {
         return true // Doesn't mention company at all
       }
     }
 
+    // Uses the name in another sense, e.g. "apple pie" when analyzing Apple
+    if (requireCompanyMention && matcher.isExcluded(text)) {
+      return true
+    }
+
     // Job posting indicators (STRICT)
     const jobKeywords = [
       "hiring",
@@ -193,9 +231,16 @@ export class RelevanceFilter {
   }
 
   /**
-   * Checks if text contains sentiment indicators
+   * Checks if text contains sentiment indicators in its own language
+   * Undetermined text is checked against the English list
    */
-  private hasSentimentIndicators(lowerText: string): boolean {
+  private hasSentimentIndicators(lowerText: string, language = "en"): boolean {
+    if (language !== "en" && language !== "und") {
+      const words = SENTIMENT_WORDS[language]
+      // Without a keyword list for the language, leave the decision to the AI filter
+      return words ? words.some((word) => lowerText.includes(word)) : true
+    }
+
     const sentimentWords = [
       // Positive
       "love",
@@ -294,20 +339,26 @@ export class RelevanceFilter {
   /**
    * Filters a batch of items
    */
-  private async filterBatch(items: ContentItem[], company: string): Promise<ContentItem[]> {
+  private async filterBatch<T extends ContentItem>(
+    items: T[],
+    matcher: CompanyMatcher,
+    requireCompanyMention: boolean,
+  ): Promise<T[]> {
     try {
-      const { text: result } = await generateText({
-        model: this.model,
-        prompt: this.buildPrompt(items, company),
-        temperature: 0.3,
+      const { relevant_ids: relevantIds } = await generateStructured({
+        task: "relevance",
+        llm: this.llm,
+        prompt: this.buildPrompt(items, matcher, requireCompanyMention),
+        schema: relevanceResponseSchema(items.map((item) => item.id)),
       })
 
-      const relevantIds = this.parseRelevantIds(result)
-
       // Return only the items that were marked as relevant
       return items.filter((item) => relevantIds.includes(item.id))
     } catch (error) {
       console.error("[v0] Relevance filtering error:", error)
+      if (error instanceof StructuredOutputError) {
+        this.onInvalidResponse(error, "kept every item in the batch")
+      }
       // On error, return all items to avoid losing data
       return items
     }
@@ -316,7 +367,9 @@ export class RelevanceFilter {
   /**
    * Builds the AI prompt for relevance filtering
    */
-  private buildPrompt(items: ContentItem[], company: string): string {
+  private buildPrompt(items: ContentItem[], matcher: CompanyMatcher, requireCompanyMention: boolean): string {
+    const company = matcher.company
+    const profile = matcher.describe()
     const itemsList = items
       .map((item, index) => {
         const text = item.text.slice(0, 300) // Limit text length
@@ -348,41 +401,23 @@ CRITICAL RULES:
 2. Must use sentiment words (love, hate, good, bad, disappointed, happy, recommend, avoid, etc.)
 3. If it's a question, news, or factual statement = REJECT
 4. If unsure = REJECT (we want ONLY obvious sentiment)
-
+5. Items may be in any language. Judge them in their own language, never reject one just for not being English
+${profile ? `6. Sentiment about ${company}'s products or under its other names counts. Items using the name in another sense = REJECT
+
+About ${company}:
+${profile}
+` : ""}${requireCompanyMention ? "" : `
+These items are feedback sent directly to ${company} (support tickets, survey answers), so they are about ${company} even when they don't name it. Complaints and praise about the product or service count as sentiment.
+`}
 Review these items and return ONLY the IDs that express CLEAR PERSONAL SENTIMENT:
 
 Items:
 ${itemsList}
 
-Respond with ONLY a JSON array of relevant IDs (expect this to be EMPTY or very small):
-["id1", "id2"]
+Respond with ONLY a JSON object listing the relevant IDs (expect the list to be EMPTY or very small):
+{"relevant_ids": ["id1", "id2"]}
 
-If none express clear sentiment, return: []`
-  }
-
-  /**
-   * Parses the AI response to extract relevant IDs
-   */
-  private parseRelevantIds(response: string): string[] {
-    try {
-      const jsonMatch = response.match(/\[[\s\S]*?\]/)
-      if (!jsonMatch) {
-        console.error("[v0] No JSON array found in relevance filter response")
-        return []
-      }
-
-      const ids = JSON.parse(jsonMatch[0])
-
-      if (!Array.isArray(ids)) {
-        console.error("[v0] Parsed result is not an array")
-        return []
-      }
-
-      return ids.filter((id) => typeof id === "string")
-    } catch (error) {
-      console.error("[v0] Error parsing relevant IDs:", error)
-      return []
-    }
+If none express clear sentiment, return: {"relevant_ids": []}`
   }
 
   /**
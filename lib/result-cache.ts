@@ -0,0 +1,103 @@
+// Result Cache
+// Keeps complete analysis results in memory so repeat requests skip Reddit and the LLM
+
+import { SnapshotRepository } from "./snapshot-repository"
+import type { AnalysisParameters, SentimentData } from "./types"
+
+interface CacheEntry {
+  data: SentimentData
+  computedAt: number
+}
+
+export class ResultCache {
+  private entries = new Map<string, CacheEntry>()
+
+  constructor(private ttlMs = Number(process.env.ANALYSIS_CACHE_TTL_MINUTES ?? 30) * 60 * 1000) {}
+
+  /**
+   * Returns a cached result marked as a cache hit, or null if missing or expired
+   */
+  get(company: string, parameters: AnalysisParameters): SentimentData | null {
+    const key = ResultCache.key(company, parameters)
+    const entry = this.entries.get(key)
+    if (!entry) return null
+
+    if (Date.now() - entry.computedAt > this.ttlMs) {
+      this.entries.delete(key)
+      return null
+    }
+
+    return {
+      ...entry.data,
+      cache: {
+        hit: true,
+        computedAt: new Date(entry.computedAt).toISOString(),
+        expiresAt: new Date(entry.computedAt + this.ttlMs).toISOString(),
+      },
+    }
+  }
+
+  /**
+   * Stores a freshly computed result and returns it with its cache marker
+   */
+  set(company: string, parameters: AnalysisParameters, data: SentimentData): SentimentData {
+    // Partial results from a rate-limited run should not be served to later requests
+    if (this.ttlMs <= 0 || data.rateLimited) return data
+
+    const computedAt = Date.now()
+    this.entries.set(ResultCache.key(company, parameters), { data, computedAt })
+    this.prune()
+
+    return {
+      ...data,
+      cache: {
+        hit: false,
+        computedAt: new Date(computedAt).toISOString(),
+        expiresAt: new Date(computedAt + this.ttlMs).toISOString(),
+      },
+    }
+  }
+
+  /**
+   * Drops every cached result for a company, e.g. after its profile changed
+   */
+  invalidate(company: string): void {
+    const prefix = `${SnapshotRepository.normalizeCompany(company)}|`
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key)
+      }
+    }
+  }
+
+  /**
+   * Builds a key that ignores company casing/whitespace and subreddit/source list order
+   */
+  static key(company: string, parameters: AnalysisParameters): string {
+    const normalizeList = (list: string[]) => list.map((s) => s.toLowerCase()).sort()
+    const normalized = {
+      ...parameters,
+      includeSubreddits: normalizeList(parameters.includeSubreddits),
+      excludeSubreddits: normalizeList(parameters.excludeSubreddits),
+      excludeAuthors: normalizeList(parameters.excludeAuthors),
+      sources: normalizeList(parameters.sources),
+    }
+    const sortedParameters = Object.fromEntries(Object.entries(normalized).sort(([a], [b]) => a.localeCompare(b)))
+
+    return `${SnapshotRepository.normalizeCompany(company)}|${JSON.stringify(sortedParameters)}`
+  }
+
+  private prune(): void {
+    const now = Date.now()
+    for (const [key, entry] of this.entries) {
+      if (now - entry.computedAt > this.ttlMs) {
+        this.entries.delete(key)
+      }
+    }
+  }
+}
+
+// Share one cache per server process, surviving module reloads in development
+const globalForCache = globalThis as unknown as { resultCache?: ResultCache }
+
+export const resultCache = globalForCache.resultCache ?? (globalForCache.resultCache = new ResultCache())
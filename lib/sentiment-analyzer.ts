@@ -1,41 +1,46 @@
 // Sentiment Analysis Engine
-// Analyzes text sentiment using AI with fallback mechanisms
+// Analyzes text sentiment using AI, falling back to the offline lexicon scorer
 
-import { createOpenAI } from "@ai-sdk/openai"
-import { generateText } from "ai"
-import type { SentimentResult } from "./types"
+import { LexiconSentimentScorer } from "./lexicon-sentiment"
+import { sentimentResponseSchema } from "./llm-response-schemas"
+import { modelRegistry, type RoleModel } from "./model-registry"
+import { generateStructured } from "./structured-output"
+import type { MentionData, SentimentMethod, SentimentResult, SentimentWeighting } from "./types"
 
 export class SentimentAnalyzer {
-  private model: any
-  private temperature: number
-
-  constructor(modelName = "gpt-4o-mini", temperature = 0.3) {
-    const openai = createOpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    })
-    this.model = openai(modelName)
-    this.temperature = temperature
-  }
+  // Recency weighting halves a mention's influence for every 3 days of age
+  private static RECENCY_HALF_LIFE_HOURS = 72
+
+  constructor(
+    private llm: RoleModel = modelRegistry.get("classify"),
+    private method: SentimentMethod = "llm",
+  ) {}
 
   /**
    * Analyzes the sentiment of text about a specific company
    * Returns sentiment label and score (-100 to 100)
    */
-  async analyze(text: string, company: string): Promise<SentimentResult> {
+  async analyze(text: string, company: string, signal?: AbortSignal): Promise<SentimentResult> {
+    if (this.method === "lexicon") {
+      return LexiconSentimentScorer.score(text)
+    }
+
     try {
-      const { text: result } = await generateText({
-        model: this.model,
+      const result = await generateStructured({
+        task: "sentiment",
+        llm: this.llm,
         prompt: this.buildPrompt(text, company),
-        temperature: this.temperature,
+        schema: sentimentResponseSchema,
+        signal,
       })
 
       console.log("[v0] AI sentiment response:", result)
 
-      const parsed = this.parseResponse(result)
-      return this.validateResult(parsed)
+      return { label: result.sentiment, score: result.score, method: "llm" }
     } catch (error) {
-      console.error("[v0] Sentiment analysis error:", error)
-      return this.getFallbackSentiment()
+      if (signal?.aborted) throw error
+      console.error("[v0] Sentiment analysis error, scoring with the lexicon instead:", error)
+      return LexiconSentimentScorer.score(text)
     }
   }
 
@@ -80,6 +85,8 @@ Consider:
 - Context and nuance
 - Sarcasm or irony
 
+The text may be in any language; judge it in that language, but always respond in the JSON format below.
+
 Respond with ONLY a JSON object in this exact format:
 {"sentiment": "positive" | "neutral" | "negative", "score": number between -100 and 100}
 
@@ -93,40 +100,6 @@ Where score represents:
 Text: ${text.slice(0, 500)}`
   }
 
-  /**
-   * Parses the AI response into structured data
-   */
-  private parseResponse(response: string): { sentiment: string; score: number } {
-    // Try to extract JSON from response
-    const jsonMatch = response.match(/\{[^}]+\}/)
-    if (!jsonMatch) {
-      throw new Error("No JSON found in response")
-    }
-
-    return JSON.parse(jsonMatch[0])
-  }
-
-  /**
-   * Validates and normalizes the sentiment result
-   */
-  private validateResult(parsed: { sentiment: string; score: number }): SentimentResult {
-    const validSentiments = ["positive", "neutral", "negative"]
-    const sentiment = validSentiments.includes(parsed.sentiment)
-      ? (parsed.sentiment as "positive" | "neutral" | "negative")
-      : "neutral"
-
-    const score = Math.max(-100, Math.min(100, parsed.score || 0))
-
-    return { label: sentiment, score }
-  }
-
-  /**
-   * Returns a neutral sentiment as fallback
-   */
-  private getFallbackSentiment(): SentimentResult {
-    return { label: "neutral", score: 0 }
-  }
-
   /**
    * Calculates aggregate sentiment from multiple results
    */
@@ -148,4 +121,48 @@ Text: ${text.slice(0, 500)}`
 
     return { averageScore, positive, neutral, negative }
   }
+
+  /**
+   * Calculates the average score with each mention weighted by weightFor
+   */
+  static calculateWeightedScore(mentions: MentionData[], weighting: SentimentWeighting): number {
+    if (mentions.length === 0) {
+      return 0
+    }
+
+    // Recency is measured from the newest mention, so long timeframes aren't all weighted near zero
+    const newest = Math.max(...mentions.map((m) => new Date(m.created).getTime()).filter(Number.isFinite))
+
+    let totalWeight = 0
+    let weightedSum = 0
+    for (const mention of mentions) {
+      const weight = this.weightFor(mention, weighting, newest)
+      totalWeight += weight
+      weightedSum += weight * mention.score
+    }
+
+    // Every weighting gives the newest mention a weight of at least 1, so totalWeight is never zero
+    return weightedSum / totalWeight
+  }
+
+  /**
+   * How much a single mention counts toward the weighted score
+   * Upvotes and replies are log-scaled so one viral post can't drown out everything else
+   */
+  static weightFor(
+    mention: Pick<MentionData, "engagement" | "replyCount" | "created">,
+    weighting: SentimentWeighting,
+    now = Date.now(),
+  ): number {
+    switch (weighting) {
+      case "upvotes":
+        return 1 + Math.log1p(Math.max(0, mention.engagement ?? 0))
+      case "replies":
+        return 1 + Math.log1p(Math.max(0, mention.replyCount ?? 0))
+      case "recency": {
+        const ageHours = Math.max(0, (now - new Date(mention.created).getTime()) / (60 * 60 * 1000))
+        return Number.isFinite(ageHours) ? 0.5 ** (ageHours / this.RECENCY_HALF_LIFE_HOURS) : 1
+      }
+    }
+  }
 }
@@ -0,0 +1,92 @@
+// Sentiment History
+// Builds the sentiment trend from real mention timestamps across analysis runs
+
+import type { HistoryBucket, HistoryGranularity, HistoryPoint, MentionData } from "./types"
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+export class SentimentHistory {
+  // Buckets with fewer mentions than this are flagged as low volume
+  static MIN_MENTIONS_PER_BUCKET = 3
+
+  // Series spanning more than this are shown per day instead of per hour
+  static HOURLY_SPAN_LIMIT_MS = 3 * DAY_MS
+
+  /**
+   * Aggregates one run's mentions into hourly buckets
+   * Mentions without a valid created timestamp are skipped
+   */
+  static aggregate(mentions: MentionData[]): HistoryBucket[] {
+    const buckets = new Map<number, HistoryBucket>()
+
+    for (const mention of mentions) {
+      const time = new Date(mention.created).getTime()
+      if (Number.isNaN(time)) continue
+
+      const start = Math.floor(time / HOUR_MS) * HOUR_MS
+      const bucket = buckets.get(start) ?? { start: new Date(start).toISOString(), count: 0, scoreSum: 0 }
+      bucket.count++
+      bucket.scoreSum += mention.score
+      buckets.set(start, bucket)
+    }
+
+    return Array.from(buckets.values()).sort((a, b) => a.start.localeCompare(b.start))
+  }
+
+  /**
+   * Merges the current run with earlier runs of the same company into one series
+   * Runs are ordered newest first; for any hour covered by several runs the newest run wins,
+   * so the same mention seen twice is never double counted
+   */
+  static build(runs: HistoryBucket[][]): { history: HistoryPoint[]; granularity: HistoryGranularity } {
+    const hourly = new Map<string, HistoryBucket>()
+    for (const run of runs) {
+      for (const bucket of run) {
+        if (!hourly.has(bucket.start)) {
+          hourly.set(bucket.start, bucket)
+        }
+      }
+    }
+
+    const buckets = Array.from(hourly.values()).sort((a, b) => a.start.localeCompare(b.start))
+    if (buckets.length === 0) {
+      return { history: [], granularity: "hour" }
+    }
+
+    const span = new Date(buckets[buckets.length - 1].start).getTime() - new Date(buckets[0].start).getTime()
+    const granularity: HistoryGranularity = span > this.HOURLY_SPAN_LIMIT_MS ? "day" : "hour"
+
+    return { history: this.toPoints(this.rollUp(buckets, granularity)), granularity }
+  }
+
+  /**
+   * Combines hourly buckets into buckets of the requested granularity
+   */
+  private static rollUp(buckets: HistoryBucket[], granularity: HistoryGranularity): HistoryBucket[] {
+    if (granularity === "hour") return buckets
+
+    const daily = new Map<number, HistoryBucket>()
+    for (const bucket of buckets) {
+      const start = Math.floor(new Date(bucket.start).getTime() / DAY_MS) * DAY_MS
+      const day = daily.get(start) ?? { start: new Date(start).toISOString(), count: 0, scoreSum: 0 }
+      day.count += bucket.count
+      day.scoreSum += bucket.scoreSum
+      daily.set(start, day)
+    }
+
+    return Array.from(daily.values()).sort((a, b) => a.start.localeCompare(b.start))
+  }
+
+  /**
+   * Converts aggregates into chart points, flagging sparse buckets instead of smoothing them
+   */
+  private static toPoints(buckets: HistoryBucket[]): HistoryPoint[] {
+    return buckets.map((bucket) => ({
+      timestamp: bucket.start,
+      score: bucket.scoreSum / bucket.count,
+      mentionCount: bucket.count,
+      lowVolume: bucket.count < this.MIN_MENTIONS_PER_BUCKET,
+    }))
+  }
+}
@@ -0,0 +1,128 @@
+// Snapshot Repository
+// Persists completed analyses to a local file-backed store on the server
+
+import { promises as fs } from "fs"
+import path from "path"
+import { DATA_DIR, SerialQueue, readJsonFile, writeJsonFile } from "./json-file-store"
+import { SentimentHistory } from "./sentiment-history"
+import type { AnalysisParameters, AnalysisSnapshot, MentionData, SentimentData, SnapshotSummary } from "./types"
+
+export class SnapshotRepository {
+  private indexPath: string
+  private writeQueue = new SerialQueue()
+
+  constructor(private directory = process.env.SNAPSHOT_DIR || path.join(DATA_DIR, "snapshots")) {
+    this.indexPath = path.join(directory, "index.json")
+  }
+
+  /**
+   * Stores a completed analysis and returns its summary
+   */
+  async save(company: string, parameters: AnalysisParameters, data: SentimentData): Promise<SnapshotSummary> {
+    const summary: SnapshotSummary = {
+      id: crypto.randomUUID(),
+      company,
+      createdAt: new Date().toISOString(),
+      score: data.score,
+      total: data.total,
+      positive: data.positive,
+      neutral: data.neutral,
+      negative: data.negative,
+      buckets: SentimentHistory.aggregate(data.mentions),
+    }
+    const snapshot: AnalysisSnapshot = {
+      ...summary,
+      parameters,
+      data: { ...data, parameters, snapshotId: summary.id },
+    }
+
+    await this.writeQueue.enqueue(async () => {
+      await writeJsonFile(this.snapshotPath(summary.id), snapshot)
+
+      const index = await this.readIndex()
+      index.push(summary)
+      await this.writeIndex(index)
+    })
+
+    return summary
+  }
+
+  /**
+   * Lists snapshot summaries, newest first, optionally for a single company
+   */
+  async list(company?: string): Promise<SnapshotSummary[]> {
+    const index = await this.readIndex()
+    const key = company ? SnapshotRepository.normalizeCompany(company) : null
+
+    return index
+      .filter((s) => key === null || SnapshotRepository.normalizeCompany(s.company) === key)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  }
+
+  /**
+   * Loads a full snapshot by id
+   */
+  async get(id: string): Promise<AnalysisSnapshot | null> {
+    if (!SnapshotRepository.isValidId(id)) return null
+
+    const snapshot = await readJsonFile<AnalysisSnapshot | null>(this.snapshotPath(id), null)
+    return snapshot ? SnapshotRepository.upgrade(snapshot) : null
+  }
+
+  /**
+   * Deletes a snapshot, returning false if it did not exist
+   */
+  async delete(id: string): Promise<boolean> {
+    if (!SnapshotRepository.isValidId(id)) return false
+
+    return this.writeQueue.enqueue(async () => {
+      const index = await this.readIndex()
+      const remaining = index.filter((s) => s.id !== id)
+      if (remaining.length === index.length) return false
+
+      await this.writeIndex(remaining)
+      await fs.rm(this.snapshotPath(id), { force: true })
+      return true
+    })
+  }
+
+  /**
+   * Normalizes a company name so "Tesla" and " tesla " share snapshots
+   */
+  static normalizeCompany(company: string): string {
+    return company.trim().toLowerCase()
+  }
+
+  /**
+   * Fills in source fields on snapshots saved before mentions were source-agnostic
+   */
+  private static upgrade(snapshot: AnalysisSnapshot): AnalysisSnapshot {
+    const mentions = snapshot.data.mentions.map((mention) => {
+      const legacy = mention as MentionData & { subreddit?: string }
+      return legacy.source ? mention : { ...mention, source: "reddit" as const, channel: legacy.subreddit ?? "" }
+    })
+    return { ...snapshot, data: { ...snapshot.data, mentions } }
+  }
+
+  private static isValidId(id: string): boolean {
+    return /^[a-f0-9-]{36}$/i.test(id)
+  }
+
+  private snapshotPath(id: string): string {
+    return path.join(this.directory, `${id}.json`)
+  }
+
+  private readIndex(): Promise<SnapshotSummary[]> {
+    return readJsonFile<SnapshotSummary[]>(this.indexPath, [])
+  }
+
+  private writeIndex(index: SnapshotSummary[]): Promise<void> {
+    return writeJsonFile(this.indexPath, index)
+  }
+}
+
+// Share one repository (and its write queue) per server process
+const globalForSnapshots = globalThis as unknown as { snapshotRepository?: SnapshotRepository }
+
+export const snapshotRepository =
+  globalForSnapshots.snapshotRepository ?? (globalForSnapshots.snapshotRepository = new SnapshotRepository())
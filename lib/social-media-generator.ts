@@ -1,8 +1,9 @@
 // Social Media Content Generator
 // Creates platform-specific content ready to post
 
-import { createOpenAI } from "@ai-sdk/openai"
-import { generateText } from "ai"
+import { socialPostResponseSchema } from "./llm-response-schemas"
+import { modelRegistry, type RoleModel } from "./model-registry"
+import { generateStructured } from "./structured-output"
 import type { SocialMediaPost } from "./types"
 
 interface ContentRequest {
@@ -17,9 +18,6 @@ interface ContentRequest {
 }
 
 export class SocialMediaGenerator {
-  private model: any
-  private temperature: number
-
   // Platform-specific constraints
   private readonly platformLimits = {
     twitter: { maxChars: 280, style: "concise and punchy", hashtags: 2 },
@@ -28,13 +26,7 @@ export class SocialMediaGenerator {
     instagram: { maxChars: 2200, style: "visual and story-driven", hashtags: 10 },
   }
 
-  constructor(modelName = "gpt-4o-mini", temperature = 0.7) {
-    const openai = createOpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    })
-    this.model = openai(modelName)
-    this.temperature = temperature
-  }
+  constructor(private llm: RoleModel = modelRegistry.get("write")) {}
 
   /**
    * Generates platform-specific social media content
@@ -84,27 +76,13 @@ export class SocialMediaGenerator {
       config,
     )
 
-    const { text: result } = await generateText({
-      model: this.model,
+    const { content } = await generateStructured({
+      task: `${platform} post`,
+      llm: this.llm,
       prompt,
-      temperature: this.temperature,
+      schema: socialPostResponseSchema(config.maxChars),
     })
 
-    // Extract the actual content (remove any JSON wrapping or quotes)
-    let content = result.trim()
-
-    // Try to extract from JSON if wrapped
-    const jsonMatch = content.match(/\{[\s\S]*"content"\s*:\s*"([\s\S]*?)"\s*[,}]/)
-    if (jsonMatch) {
-      content = jsonMatch[1]
-    }
-
-    // Remove surrounding quotes if present
-    content = content.replace(/^["']|["']$/g, "")
-
-    // Unescape newlines and quotes
-    content = content.replace(/\\n/g, "\n").replace(/\\"/g, '"')
-
     return content
   }
 
@@ -178,7 +156,8 @@ IMPORTANT RULES:
 7. Keep within character limits for ${platform}
 8. Make it ready to post immediately (no editing needed)
 
-Write ONLY the post content (no explanations, no quotes around it, no "Here's the post:" preamble).`
+Respond with ONLY a JSON object holding the post, ready to publish (no explanations, no "Here's the post:" preamble):
+{"content": "the post text"}`
   }
 
   /**
@@ -4,8 +4,14 @@ export interface SearchHistoryItem {
   score: number
 }
 
+export interface ActiveJobItem {
+  id: string
+  company: string
+}
+
 export class LocalStorage {
   private static HISTORY_KEY = "sentiment-search-history"
+  private static ACTIVE_JOB_KEY = "sentiment-active-job"
   private static MAX_HISTORY = 10
 
   static getSearchHistory(): SearchHistoryItem[] {
@@ -38,4 +44,32 @@ export class LocalStorage {
       console.error("Failed to clear search history:", error)
     }
   }
+
+  static getActiveJob(): ActiveJobItem | null {
+    if (typeof window === "undefined") return null
+    try {
+      const job = localStorage.getItem(this.ACTIVE_JOB_KEY)
+      return job ? JSON.parse(job) : null
+    } catch {
+      return null
+    }
+  }
+
+  static setActiveJob(job: ActiveJobItem): void {
+    if (typeof window === "undefined") return
+    try {
+      localStorage.setItem(this.ACTIVE_JOB_KEY, JSON.stringify(job))
+    } catch (error) {
+      console.error("Failed to save active job:", error)
+    }
+  }
+
+  static clearActiveJob(): void {
+    if (typeof window === "undefined") return
+    try {
+      localStorage.removeItem(this.ACTIVE_JOB_KEY)
+    } catch (error) {
+      console.error("Failed to clear active job:", error)
+    }
+  }
 }
@@ -0,0 +1,153 @@
+// Structured Output
+// Generates model responses that must match a zod schema, giving the model one chance to repair an invalid answer
+
+import { generateObject, generateText, JSONParseError, NoObjectGeneratedError, TypeValidationError, type ModelMessage } from "ai"
+import { ZodError, type z } from "zod"
+import type { RoleModel } from "./model-registry"
+
+export class StructuredOutputError extends Error {
+  constructor(
+    readonly task: string,
+    readonly issues: string[],
+    readonly responseText: string,
+  ) {
+    super(`Invalid ${task} response from the model: ${issues.join("; ")}`)
+    this.name = "StructuredOutputError"
+  }
+}
+
+/**
+ * Told when a caller falls back to a default because a response stayed invalid, with a short note of the fallback
+ */
+export type InvalidResponseHandler = (error: StructuredOutputError, fallback: string) => void
+
+export interface StructuredRequest<T> {
+  // Names the call in logs and errors, e.g. "sentiment"
+  task: string
+  llm: RoleModel
+  prompt: string
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+  signal?: AbortSignal
+}
+
+type AttemptResult<T> = { success: true; value: T } | { success: false; issues: string[]; text: string }
+
+/**
+ * Asks the model for a response matching the schema, using the provider's structured output mode when it has one
+ * An invalid response is sent back once with the validation issues; if the retry is also invalid this throws
+ * StructuredOutputError. Network and API errors are thrown as-is
+ */
+export async function generateStructured<T>(request: StructuredRequest<T>): Promise<T> {
+  const messages: ModelMessage[] = [{ role: "user", content: request.prompt }]
+
+  const first = await attempt(request, messages)
+  if (first.success) return first.value
+
+  console.log(`[v0] Invalid ${request.task} response, asking the model to repair it:`, first.issues)
+  const retry = await attempt(request, [
+    ...messages,
+    { role: "assistant", content: first.text },
+    { role: "user", content: buildRepairPrompt(first.issues) },
+  ])
+  if (retry.success) return retry.value
+
+  throw new StructuredOutputError(request.task, retry.issues, retry.text)
+}
+
+/**
+ * Validates a free-text response: the first complete JSON object in it must match the schema
+ */
+function parseStructured<T>(text: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): AttemptResult<T> {
+  const json = extractJsonObject(text)
+  if (json === null) {
+    return { success: false, issues: ["Response does not contain a JSON object"], text }
+  }
+
+  let value: unknown
+  try {
+    value = JSON.parse(json)
+  } catch {
+    return { success: false, issues: ["Response is not valid JSON"], text }
+  }
+
+  const parsed = schema.safeParse(value)
+  return parsed.success
+    ? { success: true, value: parsed.data }
+    : { success: false, issues: describeIssues(parsed.error), text }
+}
+
+async function attempt<T>(request: StructuredRequest<T>, messages: ModelMessage[]): Promise<AttemptResult<T>> {
+  const { llm, schema, signal } = request
+
+  if (llm.structuredOutputs) {
+    try {
+      const { object } = await generateObject({
+        model: llm.model,
+        schema,
+        messages,
+        temperature: llm.temperature,
+        abortSignal: signal,
+      })
+      return { success: true, value: object as T }
+    } catch (error) {
+      if (!NoObjectGeneratedError.isInstance(error)) throw error
+      return { success: false, issues: describeIssues(error.cause ?? error), text: error.text ?? "" }
+    }
+  }
+
+  const { text } = await generateText({
+    model: llm.model,
+    messages,
+    temperature: llm.temperature,
+    abortSignal: signal,
+  })
+  return parseStructured(text, schema)
+}
+
+function buildRepairPrompt(issues: string[]): string {
+  return `Your previous response could not be used:
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
+Respond again with ONLY the corrected JSON object, in the format requested above.`
+}
+
+/**
+ * Turns a validation failure into short messages the model (and the logs) can act on
+ */
+function describeIssues(error: unknown): string[] {
+  if (error instanceof ZodError) {
+    return error.issues.map((issue) => (issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+  }
+  if (TypeValidationError.isInstance(error)) {
+    return describeIssues(error.cause)
+  }
+  if (JSONParseError.isInstance(error)) {
+    return ["Response is not valid JSON"]
+  }
+  return [error instanceof Error ? error.message : String(error)]
+}
+
+// Models often wrap JSON in prose or code fences, and values can contain braces, so this tracks strings and nesting
+function extractJsonObject(text: string): string | null {
+  const start = text.indexOf("{")
+  if (start === -1) return null
+
+  let depth = 0
+  let inString = false
+  let escaped = false
+  for (let i = start; i < text.length; i++) {
+    const char = text[i]
+    if (inString) {
+      if (escaped) escaped = false
+      else if (char === "\\") escaped = true
+      else if (char === '"') inString = false
+    } else if (char === '"') {
+      inString = true
+    } else if (char === "{") {
+      depth++
+    } else if (char === "}" && --depth === 0) {
+      return text.slice(start, i + 1)
+    }
+  }
+  return null
+}
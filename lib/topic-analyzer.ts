@@ -1,21 +1,20 @@
 // Topic Clustering and Analysis Engine
 // Groups mentions into topics and identifies patterns
 
-import { createOpenAI } from "@ai-sdk/openai"
 import { generateText } from "ai"
-import type { MentionData, TopicCluster } from "./types"
+import { topicAssignmentResponseSchema, topicListResponseSchema } from "./llm-response-schemas"
+import { modelRegistry, type RoleModel } from "./model-registry"
+import { SentimentAnalyzer } from "./sentiment-analyzer"
+import { generateStructured, StructuredOutputError, type InvalidResponseHandler } from "./structured-output"
+import type { MentionData, SentimentWeighting, TopicCluster } from "./types"
 
 export class TopicAnalyzer {
-  private model: any
-  private temperature: number
-
-  constructor(modelName = "gpt-4o-mini", temperature = 0.5) {
-    const openai = createOpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    })
-    this.model = openai(modelName)
-    this.temperature = temperature
-  }
+  constructor(
+    private llm: RoleModel = modelRegistry.get("cluster"),
+    // Assigning a mention to one of the listed topics is a classification task
+    private classifier: RoleModel = modelRegistry.get("classify"),
+    private onInvalidResponse: InvalidResponseHandler = () => {},
+  ) {}
 
   /**
    * Analyzes mentions and groups them into topic clusters
@@ -24,6 +23,7 @@ export class TopicAnalyzer {
   async clusterByTopics(
     mentions: MentionData[],
     company: string,
+    weighting: SentimentWeighting = "upvotes",
   ): Promise<TopicCluster[]> {
     if (mentions.length === 0) {
       return []
@@ -37,7 +37,7 @@ export class TopicAnalyzer {
       const clusters = await this.assignMentionsToTopics(mentions, topics, company)
 
       // Step 3: Analyze each cluster
-      const analyzedClusters = this.analyzeClusters(clusters)
+      const analyzedClusters = this.analyzeClusters(clusters, weighting)
 
       console.log("[v0] Topic clustering complete:", analyzedClusters.length, "clusters")
       return analyzedClusters
@@ -73,27 +73,25 @@ Focus on:
 Customer mentions:
 ${sampleTexts}
 
-Respond with ONLY a JSON array of topic names (strings), like:
-["Battery Life", "Customer Service", "Pricing", "Autopilot Features", "Build Quality"]`
+Respond with ONLY a JSON object listing the topic names, like:
+{"topics": ["Battery Life", "Customer Service", "Pricing", "Autopilot Features", "Build Quality"]}`
 
     try {
-      const { text: result } = await generateText({
-        model: this.model,
+      const result = await generateStructured({
+        task: "topic identification",
+        llm: this.llm,
         prompt,
-        temperature: this.temperature,
+        schema: topicListResponseSchema,
       })
 
       console.log("[v0] Topic identification response:", result)
 
-      const jsonMatch = result.match(/\[[\s\S]*\]/)
-      if (!jsonMatch) {
-        throw new Error("No JSON array found in response")
-      }
-
-      const topics = JSON.parse(jsonMatch[0]) as string[]
-      return topics.slice(0, 8) // Limit to 8 topics max
+      return result.topics.slice(0, 8) // Limit to 8 topics max
     } catch (error) {
       console.error("[v0] Topic identification error:", error)
+      if (error instanceof StructuredOutputError) {
+        this.onInvalidResponse(error, "grouped every mention under General Feedback")
+      }
       return ["General Feedback"] // Fallback to single topic
     }
   }
@@ -159,29 +157,33 @@ Respond with ONLY a JSON array of topic names (strings), like:
     topics: string[],
     company: string,
   ): Promise<string> {
+    // Replies often only make sense next to the thread they were posted in
+    const thread = mention.kind === "comment" && mention.postTitle ? `Posted in the thread: "${mention.postTitle}"\n` : ""
+
     const prompt = `Given this customer mention about ${company}, which topic does it most closely relate to?
 
 Topics:
 ${topics.map((t, i) => `${i + 1}. ${t}`).join("\n")}
 
-Mention: "${mention.text}"
+${thread}Mention: "${mention.text}"
 
-Respond with ONLY the topic name exactly as listed above (no number, no explanation).`
+Respond with ONLY a JSON object naming the topic exactly as listed above (no number, no explanation):
+{"topic": "topic name"}`
 
     try {
-      const { text: result } = await generateText({
-        model: this.model,
+      const result = await generateStructured({
+        task: "topic assignment",
+        llm: this.classifier,
         prompt,
-        temperature: 0.3,
+        schema: topicAssignmentResponseSchema(topics),
       })
 
-      const assignedTopic = result.trim().replace(/^["']|["']$/g, "")
-
-      // Find closest match
-      const match = topics.find((t) => assignedTopic.toLowerCase().includes(t.toLowerCase()))
-      return match || topics[0]
+      return result.topic
     } catch (error) {
       console.error("[v0] Mention assignment error:", error)
+      if (error instanceof StructuredOutputError) {
+        this.onInvalidResponse(error, "assigned the mention to the first topic")
+      }
       return topics[0] // Fallback to first topic
     }
   }
@@ -208,9 +210,9 @@ Respond with ONLY the summary sentence (no quotes, no preamble).`
 
     try {
       const { text: result } = await generateText({
-        model: this.model,
+        model: this.llm.model,
         prompt,
-        temperature: 0.4,
+        temperature: this.llm.temperature,
       })
 
       return result.trim().replace(/^["']|["']$/g, "")
@@ -222,9 +224,11 @@ Respond with ONLY the summary sentence (no quotes, no preamble).`
 
   /**
    * Analyzes each cluster and determines if it should be addressed
+   * Priority follows the weighted sentiment, so a few widely upvoted complaints outrank many ignored ones
    */
   private analyzeClusters(
     clusters: Map<string, { description: string; mentions: MentionData[] }>,
+    weighting: SentimentWeighting,
   ): TopicCluster[] {
     const analyzed: TopicCluster[] = []
 
@@ -238,17 +242,18 @@ Respond with ONLY the summary sentence (no quotes, no preamble).`
 
       const averageSentiment =
         mentions.reduce((sum, m) => sum + m.score, 0) / mentions.length
+      const weightedSentiment = SentimentAnalyzer.calculateWeightedScore(mentions, weighting)
 
       // Determine if this topic should be addressed
       const negativePercentage = (negative / mentions.length) * 100
-      const shouldAddress = negativePercentage >= 40 || (negative >= 3 && averageSentiment < -10)
+      const shouldAddress = negativePercentage >= 40 || (negative >= 3 && weightedSentiment < -10)
 
       // Determine priority
       let priority: "high" | "medium" | "low" = "low"
       if (shouldAddress) {
-        if (negativePercentage >= 60 || averageSentiment <= -30) {
+        if (negativePercentage >= 60 || weightedSentiment <= -30) {
           priority = "high"
-        } else if (negativePercentage >= 50 || averageSentiment <= -20) {
+        } else if (negativePercentage >= 50 || weightedSentiment <= -20) {
           priority = "medium"
         } else {
           priority = "medium"
@@ -260,6 +265,7 @@ Respond with ONLY the summary sentence (no quotes, no preamble).`
         description,
         mentionCount: mentions.length,
         averageSentiment,
+        weightedSentiment,
         positive,
         neutral,
         negative,
@@ -1,41 +1,42 @@
 // Topic Generator
 // Generates relevant search topics for a company using AI
 
-import { createOpenAI } from "@ai-sdk/openai"
-import { generateText } from "ai"
+import { topicListResponseSchema } from "./llm-response-schemas"
+import { modelRegistry, type RoleModel } from "./model-registry"
+import { CompanyMatcher } from "./company-matcher"
+import { generateStructured, StructuredOutputError, type InvalidResponseHandler } from "./structured-output"
+import type { CompanyProfile } from "./types"
 
 export class TopicGenerator {
-  private model: any
-
-  constructor() {
-    const openai = createOpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    })
-    this.model = openai("gpt-4o-mini")
-  }
+  constructor(
+    private llm: RoleModel = modelRegistry.get("cluster"),
+    private onInvalidResponse: InvalidResponseHandler = () => {},
+  ) {}
 
   /**
    * Generates relevant topics to search for about a company
    * Returns an array of search queries that will help find relevant discussions
    */
-  async generateTopics(company: string, count: number = 5): Promise<string[]> {
+  async generateTopics(company: string, count: number = 5, profile: CompanyProfile | null = null): Promise<string[]> {
     try {
       console.log(`[v0] Generating topics for: ${company}`)
 
-      const { text: result } = await generateText({
-        model: this.model,
-        prompt: this.buildPrompt(company, count),
-        temperature: 0.7,
+      const result = await generateStructured({
+        task: "search topics",
+        llm: this.llm,
+        prompt: this.buildPrompt(company, count, profile),
+        schema: topicListResponseSchema,
       })
 
-      console.log("[v0] Topic generation response:", result)
-
-      const topics = this.parseTopics(result)
+      const topics = result.topics.slice(0, count)
       console.log(`[v0] Generated ${topics.length} topics:`, topics)
 
       return topics
     } catch (error) {
       console.error("[v0] Topic generation error:", error)
+      if (error instanceof StructuredOutputError) {
+        this.onInvalidResponse(error, "searched for the company name only")
+      }
       // Fallback to basic company search
       return [company]
     }
@@ -44,7 +45,15 @@ export class TopicGenerator {
   /**
    * Builds the AI prompt for topic generation
    */
-  private buildPrompt(company: string, count: number): string {
+  private buildPrompt(company: string, count: number, profile: CompanyProfile | null): string {
+    const context = new CompanyMatcher(company, profile).describe()
+    const profileSection = context
+      ? `
+Company profile (use the product names for specific topics and competitors for comparisons; avoid words that would find the other meanings):
+${context}
+`
+      : ""
+
     return `Generate ${count} relevant search topics/queries to find SENTIMENT and OPINIONS about ${company} on Reddit.
 
 CRITICAL: Each topic MUST include "${company}" in the search string and focus on sentiment-bearing discussions.
@@ -60,37 +69,10 @@ Good examples for Tesla:
 
 Bad examples (too generic/factual):
 ["Tesla news", "Tesla updates", "Tesla stock", "Electric vehicles"]
-
-Respond with ONLY a JSON array of ${count} strings:
-["${company} [specific aspect]", "${company} [specific aspect]", ...]
+${profileSection}
+Respond with ONLY a JSON object listing ${count} topics:
+{"topics": ["${company} [specific aspect]", "${company} [specific aspect]", ...]}
 
 Company: ${company}`
   }
-
-  /**
-   * Parses the AI response to extract topics
-   */
-  private parseTopics(response: string): string[] {
-    try {
-      // Try to extract JSON array from response
-      const jsonMatch = response.match(/\[[\s\S]*\]/)
-      if (!jsonMatch) {
-        console.error("[v0] No JSON array found in response")
-        return []
-      }
-
-      const topics = JSON.parse(jsonMatch[0])
-
-      if (!Array.isArray(topics)) {
-        console.error("[v0] Parsed result is not an array")
-        return []
-      }
-
-      // Filter out empty strings and ensure all are strings
-      return topics.filter((t) => typeof t === "string" && t.trim().length > 0).map((t) => t.trim())
-    } catch (error) {
-      console.error("[v0] Error parsing topics:", error)
-      return []
-    }
-  }
 }
@@ -10,18 +10,173 @@ export interface RedditPost {
     created_utc: number
     permalink: string
     score: number
+    num_comments?: number
+    // Fullname (t3_...) of the original post when this one is a crosspost
+    crosspost_parent?: string
   }
 }
 
 export interface RedditResponse {
   data: {
     children: RedditPost[]
+    // Cursor for the next page; null on the last page
+    after?: string | null
   }
 }
 
+// An entry in a comment listing: a comment, or a "load more comments" stub listing the ids it hides
+export type RedditCommentThing =
+  | {
+      kind: "t1"
+      data: {
+        id: string
+        body: string
+        author: string
+        score: number
+        created_utc: number
+        parent_id: string
+        permalink: string
+        // Set on comments loaded through /api/morechildren, which arrive as a flat list
+        depth?: number
+        // Reddit sends an empty string when there are no replies
+        replies?: { data: { children: RedditCommentThing[] } } | ""
+      }
+    }
+  | { kind: "more"; data: { children: string[] } }
+
+// A comment flattened out of its thread
+export interface RedditComment {
+  id: string
+  body: string
+  author: string
+  score: number
+  created_utc: number
+  parent_id: string
+  permalink: string
+  depth: number
+  // Direct replies, including collapsed ones
+  reply_count: number
+}
+
+export interface HackerNewsHit {
+  objectID: string
+  _tags?: string[]
+  title?: string | null
+  url?: string | null
+  author: string
+  points?: number | null
+  story_text?: string | null
+  comment_text?: string | null
+  story_id?: number | null
+  story_title?: string | null
+  parent_id?: number | null
+  num_comments?: number | null
+  created_at_i: number
+}
+
+export interface HackerNewsSearchResponse {
+  hits: HackerNewsHit[]
+}
+
+export interface HackerNewsItem {
+  id: number
+  type: "story" | "comment" | string
+  author: string | null
+  text: string | null
+  title?: string | null
+  points?: number | null
+  created_at_i: number
+  children?: HackerNewsItem[]
+}
+
+export interface FeedSubscription {
+  id: string
+  company: string
+  url: string
+  title?: string
+  createdAt: string
+  lastFetchedAt?: string
+  lastError?: string
+}
+
+export interface FeedEntry {
+  // GUID for RSS, id for Atom; falls back to the link when a feed omits both
+  guid: string
+  title: string
+  summary: string
+  link: string
+  author?: string
+  published?: string
+}
+
+// "llm" scores come from the classify model; "lexicon" from the offline rule-based scorer
+export type SentimentMethod = "llm" | "lexicon"
+
 export interface SentimentResult {
   label: "positive" | "neutral" | "negative"
   score: number
+  method?: SentimentMethod
+}
+
+// Sources the pipeline can search; uploads are analyzed as supplied
+export type SearchSourceId = "reddit" | "hackernews" | "feeds"
+export type MentionSourceId = SearchSourceId | "upload"
+
+// A post or comment as returned by a mention source, before sentiment analysis
+export interface SourceMention {
+  id: string
+  source: MentionSourceId
+  kind: "post" | "comment"
+  text: string
+  title?: string
+  // Where the mention was posted, e.g. a subreddit
+  channel: string
+  author: string
+  url: string
+  created: string
+  // Upvotes, points or likes, whatever the source counts
+  engagement: number
+  // Replies the item received at the source, including ones that weren't collected
+  replyCount?: number
+  // Id of the original when the source marks the item as a copy, e.g. a Reddit crosspost
+  canonicalId?: string
+  // Near-identical items merged into this one before analysis
+  duplicateCount?: number
+  // ISO 639-1 code from LanguageDetector, "und" when unknown
+  language?: string
+  // Source-specific reference used to load the conversation, e.g. a Reddit permalink
+  conversationRef?: string
+  // Id of the post that started the thread; a post's own id
+  threadId?: string
+  // Comments only: the post or comment being replied to, and the nesting level (0 = top-level comment)
+  parentId?: string
+  depth?: number
+}
+
+export type FilteredAuthorReason = "denied" | "deleted" | "bot" | "repetitive"
+
+// One author whose items were dropped before analysis, with how many
+export interface FilteredAuthor {
+  author: string
+  source: MentionSourceId
+  reason: FilteredAuthorReason
+  count: number
+}
+
+export type FeedbackFormat = "csv" | "jsonl"
+
+// Which uploaded column feeds each mention field; only text is required
+export interface ColumnMapping {
+  text: string
+  author?: string
+  date?: string
+  url?: string
+  channel?: string
+}
+
+export interface FeedbackRowError {
+  row: number
+  message: string
 }
 
 export interface MentionData {
@@ -30,10 +185,24 @@ export interface MentionData {
   body?: string
   sentiment: "positive" | "neutral" | "negative"
   score: number
+  source: MentionSourceId
+  channel: string
   author: string
-  subreddit: string
   created: string
   url: string
+  // Upvotes or points when collected
+  engagement?: number
+  replyCount?: number
+  duplicateCount?: number
+  language?: string
+  // Missing on older snapshots, which were always scored by the LLM
+  sentimentMethod?: SentimentMethod
+  kind?: "post" | "comment"
+  // Title of the post the mention belongs to (its own title for posts)
+  postTitle?: string
+  threadId?: string
+  parentId?: string
+  depth?: number
 }
 
 export interface TopicCluster {
@@ -41,6 +210,8 @@ export interface TopicCluster {
   description: string
   mentionCount: number
   averageSentiment: number
+  // Average weighted by the analysis' sentiment weighting; missing on older snapshots
+  weightedSentiment?: number
   positive: number
   neutral: number
   negative: number
@@ -75,15 +246,199 @@ export interface SocialMediaPost {
 
 export interface SentimentData {
   score: number
+  // Score with each mention weighted by engagement or recency; missing on older snapshots
+  weightedScore?: number
+  weighting?: SentimentWeighting
   total: number
   positive: number
   neutral: number
   negative: number
   mentions: MentionData[]
-  history: Array<{
-    timestamp: string
-    score: number
-  }>
+  history: HistoryPoint[]
+  historyGranularity?: HistoryGranularity
   topicClusters?: TopicCluster[]
   recommendations?: ActionableRecommendation[]
+  parameters?: AnalysisParameters
+  snapshotId?: string
+  // Reddit stopped answering part way through, so the result is based on partial data
+  rateLimited?: boolean
+  // Stages that fell back to defaults because model responses failed validation
+  warnings?: PipelineWarning[]
+  // Uploaded rows versus those that passed the relevance filter and were scored; only set for uploads
+  upload?: {
+    rows: number
+    analyzed: number
+  }
+  // Crossposts and near-identical texts merged before analysis
+  duplicatesCollapsed?: number
+  // Authors dropped as bots, deleted accounts, deny-listed or flooding
+  filteredAuthors?: FilteredAuthor[]
+  languages?: LanguageBreakdown[]
+  cache?: {
+    hit: boolean
+    computedAt: string
+    expiresAt: string
+  }
+}
+
+export interface LanguageBreakdown {
+  language: string
+  count: number
+  averageScore: number
+}
+
+export type HistoryGranularity = "hour" | "day"
+
+export interface HistoryPoint {
+  timestamp: string
+  score: number
+  mentionCount: number
+  lowVolume: boolean
+}
+
+// Raw per-run aggregate for one hour, kept so later runs can extend the series
+export interface HistoryBucket {
+  start: string
+  count: number
+  scoreSum: number
+}
+
+export type RedditTimeframe = "hour" | "day" | "week" | "month" | "year" | "all"
+
+// What makes one mention count more than another in the weighted score
+export type SentimentWeighting = "upvotes" | "replies" | "recency"
+
+export interface AnalysisParameters {
+  topicCount: number
+  postBudget: number
+  timeframe: RedditTimeframe
+  weighting: SentimentWeighting
+  sentimentMethod: SentimentMethod
+  commentPostBudget: number
+  commentBudget: number
+  maxMentions: number
+  minScore: number
+  includeSubreddits: string[]
+  excludeSubreddits: string[]
+  excludeAuthors: string[]
+  sources: SearchSourceId[]
+  relevanceBatchSize: number
+}
+
+export interface SnapshotSummary {
+  id: string
+  company: string
+  createdAt: string
+  score: number
+  total: number
+  positive: number
+  neutral: number
+  negative: number
+  buckets?: HistoryBucket[]
+}
+
+export interface AnalysisSnapshot extends SnapshotSummary {
+  parameters: AnalysisParameters
+  data: SentimentData
+}
+
+export type PipelineStage =
+  | "topics"
+  | "search"
+  | "comments"
+  | "relevance"
+  | "sentiment"
+  | "clustering"
+  | "recommendations"
+
+export interface PipelineCounts {
+  topicsGenerated?: number
+  postsFound?: number
+  commentsCollected?: number
+  itemsKept?: number
+  duplicatesCollapsed?: number
+  lowQualityRemoved?: number
+  mentionsAnalyzed?: number
+  clustersFound?: number
+  recommendationsGenerated?: number
+}
+
+/**
+ * Invalid model responses for one stage and task; only the first failure's issues are kept
+ */
+export interface PipelineWarning {
+  stage: PipelineStage
+  task: string
+  count: number
+  fallback: string
+  issues: string[]
+}
+
+export type PipelineEvent =
+  | { type: "stage-start"; stage: PipelineStage; counts: PipelineCounts }
+  | { type: "stage-progress"; stage: PipelineStage; counts: PipelineCounts; message?: string }
+  | {
+      type: "stage-complete"
+      stage: PipelineStage
+      counts: PipelineCounts
+      topics?: string[]
+      partial?: Partial<SentimentData>
+    }
+  | { type: "result"; data: SentimentData }
+  | { type: "error"; message: string }
+
+export type WatchlistSchedule = "hourly" | "daily" | "weekly"
+
+export interface CompanyProfile {
+  id: string
+  company: string
+  // Other names people use for the company, e.g. "Facebook" for Meta
+  aliases: string[]
+  ticker?: string
+  products: string[]
+  // Official accounts, e.g. "@AppleSupport"
+  handles: string[]
+  // Phrases, or /regular expressions/, for other meanings of the name such as "apple pie"
+  negativePatterns: string[]
+  competitors: string[]
+  createdAt: string
+  updatedAt: string
+}
+
+export interface WatchlistEntry {
+  id: string
+  company: string
+  schedule: WatchlistSchedule
+  enabled: boolean
+  createdAt: string
+  nextRunAt: string
+  lastRunAt?: string
+  lastStatus?: "completed" | "failed"
+  lastSnapshotId?: string
+  lastScore?: number
+  lastError?: string
+}
+
+export interface CompanyComparison {
+  company: string
+  data: SentimentData
+  shareOfVoice: number
+  scoreDifference: number
+}
+
+export interface CommonTopic {
+  topic: string
+  companies: Array<{
+    company: string
+    topic: string
+    mentionCount: number
+    averageSentiment: number
+  }>
+}
+
+export interface ComparisonResult {
+  baseline: string
+  companies: CompanyComparison[]
+  commonTopics: CommonTopic[]
+  uniqueTopics: Record<string, string[]>
 }
@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest"
+import { WatchlistRepository } from "./watchlist-repository"
+
+describe("WatchlistRepository.isSchedule", () => {
+  it("accepts the listed schedules", () => {
+    expect(["hourly", "daily", "weekly"].every((value) => WatchlistRepository.isSchedule(value))).toBe(true)
+  })
+
+  it("rejects keys inherited from Object.prototype", () => {
+    for (const value of ["constructor", "toString", "__proto__", "hasOwnProperty"]) {
+      expect(WatchlistRepository.isSchedule(value)).toBe(false)
+    }
+  })
+})
@@ -0,0 +1,111 @@
+// Watchlist Repository
+// Stores the companies that are analyzed on a recurring schedule
+
+import path from "path"
+import { DATA_DIR, SerialQueue, readJsonFile, writeJsonFile } from "./json-file-store"
+import type { WatchlistEntry, WatchlistSchedule } from "./types"
+
+const SCHEDULE_INTERVALS: Record<WatchlistSchedule, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+}
+
+export class WatchlistRepository {
+  private writeQueue = new SerialQueue()
+
+  constructor(private filePath = path.join(DATA_DIR, "watchlist.json")) {}
+
+  async list(): Promise<WatchlistEntry[]> {
+    const entries = await this.read()
+    return entries.sort((a, b) => a.company.localeCompare(b.company))
+  }
+
+  async get(id: string): Promise<WatchlistEntry | null> {
+    const entries = await this.read()
+    return entries.find((e) => e.id === id) ?? null
+  }
+
+  /**
+   * Adds a company to the watchlist; the first run is due immediately
+   * Returns null if the company is already being watched
+   */
+  async add(company: string, schedule: WatchlistSchedule): Promise<WatchlistEntry | null> {
+    return this.writeQueue.enqueue(async () => {
+      const entries = await this.read()
+      const key = company.trim().toLowerCase()
+      if (entries.some((e) => e.company.trim().toLowerCase() === key)) {
+        return null
+      }
+
+      const now = new Date().toISOString()
+      const entry: WatchlistEntry = {
+        id: crypto.randomUUID(),
+        company: company.trim(),
+        schedule,
+        enabled: true,
+        createdAt: now,
+        nextRunAt: now,
+      }
+
+      await writeJsonFile(this.filePath, [...entries, entry])
+      return entry
+    })
+  }
+
+  /**
+   * Applies changes to an entry, returning null if it does not exist
+   */
+  async update(id: string, changes: Partial<Omit<WatchlistEntry, "id" | "createdAt">>): Promise<WatchlistEntry | null> {
+    return this.writeQueue.enqueue(async () => {
+      const entries = await this.read()
+      const index = entries.findIndex((e) => e.id === id)
+      if (index === -1) return null
+
+      const entry = { ...entries[index], ...changes }
+      entries[index] = entry
+      await writeJsonFile(this.filePath, entries)
+      return entry
+    })
+  }
+
+  async remove(id: string): Promise<boolean> {
+    return this.writeQueue.enqueue(async () => {
+      const entries = await this.read()
+      const remaining = entries.filter((e) => e.id !== id)
+      if (remaining.length === entries.length) return false
+
+      await writeJsonFile(this.filePath, remaining)
+      return true
+    })
+  }
+
+  /**
+   * Returns enabled entries whose next run time has passed
+   */
+  async listDue(now = new Date()): Promise<WatchlistEntry[]> {
+    const entries = await this.read()
+    return entries.filter((e) => e.enabled && new Date(e.nextRunAt).getTime() <= now.getTime())
+  }
+
+  /**
+   * Computes when an entry should run next after a run at the given time
+   */
+  static nextRunAfter(schedule: WatchlistSchedule, from: Date): string {
+    return new Date(from.getTime() + SCHEDULE_INTERVALS[schedule]).toISOString()
+  }
+
+  static isSchedule(value: unknown): value is WatchlistSchedule {
+    // Own keys only: "constructor" and "toString" are also "in" the object
+    return typeof value === "string" && Object.hasOwn(SCHEDULE_INTERVALS, value)
+  }
+
+  private read(): Promise<WatchlistEntry[]> {
+    return readJsonFile<WatchlistEntry[]>(this.filePath, [])
+  }
+}
+
+const globalForWatchlist = globalThis as unknown as { watchlistRepository?: WatchlistRepository }
+
+export const watchlistRepository =
+  globalForWatchlist.watchlistRepository ?? (globalForWatchlist.watchlistRepository = new WatchlistRepository())
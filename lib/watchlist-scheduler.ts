@@ -0,0 +1,94 @@
+// Watchlist Scheduler
+// Runs due watchlist analyses in the background, one at a time
+
+import { AnalysisPipeline } from "./analysis-pipeline"
+import { SerialQueue } from "./json-file-store"
+import { WatchlistRepository, watchlistRepository } from "./watchlist-repository"
+
+export class WatchlistScheduler {
+  private static TICK_MS = 60 * 1000
+
+  private timer: ReturnType<typeof setInterval> | null = null
+  // Runs share one queue so scheduled analyses never hit Reddit concurrently
+  private queue = new SerialQueue()
+  private pending = new Set<string>()
+
+  start(): void {
+    if (this.timer) return
+
+    console.log("[v0] Watchlist scheduler started")
+    this.timer = setInterval(() => void this.tick(), WatchlistScheduler.TICK_MS)
+    void this.tick()
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * Queues a run for an entry unless one is already waiting
+   */
+  enqueue(id: string): boolean {
+    if (this.pending.has(id)) return false
+
+    this.pending.add(id)
+    void this.queue
+      .enqueue(() => this.run(id))
+      .catch((error) => console.error(`[v0] Scheduled run ${id} could not be recorded:`, error))
+      .finally(() => this.pending.delete(id))
+    return true
+  }
+
+  isPending(id: string): boolean {
+    return this.pending.has(id)
+  }
+
+  /**
+   * Queues every entry whose next run time has passed
+   */
+  private async tick(): Promise<void> {
+    try {
+      const due = await watchlistRepository.listDue()
+      due.forEach((entry) => this.enqueue(entry.id))
+    } catch (error) {
+      console.error("[v0] Watchlist scheduler tick failed:", error)
+    }
+  }
+
+  private async run(id: string): Promise<void> {
+    const entry = await watchlistRepository.get(id)
+    if (!entry) return
+
+    const startedAt = new Date()
+    console.log(`[v0] Running scheduled analysis for: ${entry.company}`)
+
+    try {
+      // Scheduled runs exist to record fresh data, so they never reuse a cached result
+      const result = await new AnalysisPipeline({ force: true }).run(entry.company)
+      await watchlistRepository.update(id, {
+        lastRunAt: startedAt.toISOString(),
+        lastStatus: "completed",
+        lastSnapshotId: result.snapshotId,
+        lastScore: result.score,
+        lastError: undefined,
+        nextRunAt: WatchlistRepository.nextRunAfter(entry.schedule, startedAt),
+      })
+    } catch (error) {
+      console.error(`[v0] Scheduled analysis for ${entry.company} failed:`, error)
+      await watchlistRepository.update(id, {
+        lastRunAt: startedAt.toISOString(),
+        lastStatus: "failed",
+        lastError: error instanceof Error ? error.message : "Unknown error",
+        nextRunAt: WatchlistRepository.nextRunAfter(entry.schedule, startedAt),
+      })
+    }
+  }
+}
+
+const globalForScheduler = globalThis as unknown as { watchlistScheduler?: WatchlistScheduler }
+
+export const watchlistScheduler =
+  globalForScheduler.watchlistScheduler ?? (globalForScheduler.watchlistScheduler = new WatchlistScheduler())